@@ -3,6 +3,8 @@
  * Standalone declaration file for CJS/ESM interop compatibility
  */
 
+import { Transform } from 'stream';
+
 /**
  * Entity types that can be detected
  */
@@ -17,17 +19,70 @@ export declare enum EntityType {
   IP_ADDRESS = "IP_ADDRESS",
   URL = "URL",
   DATE_TIME = "DATE_TIME",
+  IBAN_CODE = "IBAN_CODE",
+  UK_NINO = "UK_NINO",
+  UK_NHS = "UK_NHS",
+  EU_VAT = "EU_VAT",
+  PASSPORT = "PASSPORT",
+  AWS_ACCESS_KEY = "AWS_ACCESS_KEY",
+  API_KEY = "API_KEY",
+  JWT = "JWT",
+  BEARER_TOKEN = "BEARER_TOKEN",
+  PRIVATE_KEY = "PRIVATE_KEY",
+  PASSWORD = "PASSWORD",
+  URL_CREDENTIALS = "URL_CREDENTIALS",
+  SECRET = "SECRET",
+}
+
+/**
+ * Entity type name. The EntityType members are the well-known values, but any
+ * string can be used for custom entities (e.g. 'EMPLOYEE_ID')
+ */
+export type EntityTypeName = EntityType | (string & {});
+
+/**
+ * A change made to a result's score after recognition
+ */
+export interface ScoreAdjustment {
+  reason: string;
+  previousScore: number;
+  score: number;
+}
+
+/**
+ * A result dropped in favour of an overlapping one
+ */
+export interface SupersededResult {
+  entityType: EntityTypeName;
+  start: number;
+  end: number;
+  score: number;
+  recognizer: string;
+}
+
+/**
+ * Why a result was produced and how its score was reached
+ */
+export interface AnalysisExplanation {
+  recognizer: string;
+  patternName?: string;
+  pattern?: string;
+  nerLabel?: string;
+  originalScore: number;
+  scoreAdjustments: ScoreAdjustment[];
+  supersededResults: SupersededResult[];
 }
 
 /**
  * Result of entity recognition
  */
 export interface RecognizerResult {
-  entityType: EntityType;
+  entityType: EntityTypeName;
   start: number;
   end: number;
   score: number;
   text: string;
+  analysisExplanation?: AnalysisExplanation;
 }
 
 /**
@@ -38,6 +93,22 @@ export declare enum OperatorType {
   REPLACE = "replace",
   MASK = "mask",
   HASH = "hash",
+  ENCRYPT = "encrypt",
+  DECRYPT = "decrypt",
+  PSEUDONYMIZE = "pseudonymize",
+  SURROGATE = "surrogate",
+  CUSTOM = "custom",
+}
+
+/**
+ * Information passed to a CUSTOM operator function
+ */
+export interface OperatorContext {
+  entityType: EntityTypeName;
+  score: number;
+  start: number;
+  end: number;
+  text: string;
 }
 
 /**
@@ -49,6 +120,16 @@ export interface OperatorConfig {
   maskingChar?: string;
   charsToMask?: number;
   fromEnd?: boolean;
+  hashType?: string;
+  hashKey?: string;
+  salt?: string;
+  hashLength?: number;
+  hashEncoding?: "hex" | "base64url";
+  hashPrefix?: boolean;
+  key?: string;
+  vault?: EntityVault;
+  seed?: string | number;
+  customFunction?: (value: string, context: OperatorContext) => string | Promise<string>;
 }
 
 /**
@@ -59,51 +140,671 @@ export interface AnonymizerResult {
   items: Array<{
     start: number;
     end: number;
-    entityType: EntityType;
+    originalStart: number;
+    originalEnd: number;
+    entityType: EntityTypeName;
     text: string;
     operator: OperatorType;
   }>;
 }
 
+/**
+ * Options passed to recognizers' initialize
+ */
+export interface InitializeOptions {
+  /** Receives progress messages such as model loading (default console.log) */
+  logger?: (message: string) => void;
+}
+
+/**
+ * Common interface implemented by every recognizer the analyzer can run
+ */
+export interface EntityRecognizer {
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  readonly context?: string[];
+  initialize?(options?: InitializeOptions): Promise<void>;
+  recognize(text: string): RecognizerResult[] | Promise<RecognizerResult[]>;
+  recognizeBatch?(texts: string[]): Promise<RecognizerResult[][]>;
+}
+
+/**
+ * Options for creating an analyzer
+ */
+export interface AnalyzerOptions {
+  useNER?: boolean;
+  modelName?: string;
+  languages?: string[];
+  nerModels?: Record<string, string>;
+  defaultLanguage?: string;
+  registry?: RecognizerRegistry;
+  context?: ContextEnhancerOptions;
+  defaultScoreThreshold?: number;
+}
+
+/**
+ * Per-call analysis options
+ */
+export interface AnalyzeOptions {
+  entities?: EntityTypeName[];
+  language?: string;
+  scoreThreshold?: number;
+  returnDecisionProcess?: boolean;
+  allowList?: Array<string | RegExp>;
+  allowListIgnoreCase?: boolean;
+}
+
+/**
+ * Options shared by the batch APIs
+ */
+export interface BatchOptions {
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Outcome of one item of a batch: either its result or the error it raised
+ */
+export interface BatchItemResult<T> {
+  index: number;
+  result?: T;
+  error?: Error;
+}
+
+/**
+ * Options for analyzeBatch
+ */
+export interface AnalyzeBatchOptions extends AnalyzeOptions, BatchOptions {
+  batchSize?: number;
+}
+
+/**
+ * Options controlling context-word score enhancement
+ */
+export interface ContextEnhancerOptions {
+  contextSimilarityFactor?: number;
+  minScoreWithContextSimilarity?: number;
+  contextPrefixCount?: number;
+  contextSuffixCount?: number;
+}
+
+/**
+ * Boosts result scores when a recognizer's context words appear near the match
+ */
+export declare class ContextEnhancer {
+  constructor(options?: ContextEnhancerOptions);
+  enhance(text: string, results: RecognizerResult[], contextWords: string[]): RecognizerResult[];
+  findContextWord(text: string, result: RecognizerResult, contextWords: string[]): string | undefined;
+}
+
 /**
  * Main analyzer that combines NER and pattern-based recognition
  */
 export declare class PresidioAnalyzer {
-  constructor(options?: { useNER?: boolean; modelName?: string });
-  initialize(): Promise<void>;
-  analyze(text: string, entities?: EntityType[]): Promise<RecognizerResult[]>;
+  readonly registry: RecognizerRegistry;
+  constructor(options?: AnalyzerOptions);
+  initialize(options?: InitializeOptions): Promise<void>;
+  analyze(text: string, options?: EntityTypeName[] | AnalyzeOptions): Promise<RecognizerResult[]>;
+  analyzeBatch(texts: string[], options?: AnalyzeBatchOptions): Promise<BatchItemResult<RecognizerResult[]>[]>;
 }
 
 /**
  * Anonymizer that applies various anonymization operators to detected entities
  */
 export declare class PresidioAnonymizer {
-  constructor(defaultOperator?: OperatorConfig);
+  readonly vault: EntityVault;
+  constructor(defaultOperator?: OperatorConfig, vault?: EntityVault);
   anonymize(
     text: string,
     analyzerResults: RecognizerResult[],
-    operators?: Map<EntityType, OperatorConfig>
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>
+  ): AnonymizerResult;
+  anonymizeAsync(
+    text: string,
+    analyzerResults: RecognizerResult[],
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>
+  ): Promise<AnonymizerResult>;
+  anonymizeBatch(
+    texts: string[],
+    analyzerResults: RecognizerResult[][],
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>,
+    options?: BatchOptions
+  ): Promise<BatchItemResult<AnonymizerResult>[]>;
+}
+
+/**
+ * Converts positions between an original text and its anonymized version
+ */
+export declare class OffsetMapping {
+  constructor(items: AnonymizerResult["items"]);
+  static fromResult(result: AnonymizerResult): OffsetMapping;
+  toOriginal(position: number, bias?: "start" | "end"): number;
+  toAnonymized(position: number, bias?: "start" | "end"): number;
+  toOriginalSpan(start: number, end: number): { start: number; end: number };
+  toAnonymizedSpan(start: number, end: number): { start: number; end: number };
+}
+
+/**
+ * Options for streaming anonymization
+ */
+export interface AnonymizerStreamOptions {
+  analyzer: PresidioAnalyzer;
+  anonymizer?: PresidioAnonymizer;
+  analyzeOptions?: AnalyzeOptions;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  lookahead?: number;
+  lineMode?: boolean;
+}
+
+/**
+ * Transform stream that anonymizes text as it passes through
+ */
+export declare class AnonymizerStream extends Transform {
+  constructor(options: AnonymizerStreamOptions);
+  static anonymize(
+    source: AsyncIterable<string | Buffer> | Iterable<string | Buffer>,
+    options: AnonymizerStreamOptions
+  ): AsyncGenerator<string>;
+}
+
+/**
+ * How to treat the value at a key path
+ */
+export interface FieldConfig {
+  skip?: boolean;
+  entityType?: EntityTypeName;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+}
+
+/**
+ * Options for creating a structured anonymizer
+ */
+export interface StructuredAnonymizerOptions {
+  analyzer: PresidioAnalyzer;
+  anonymizer?: PresidioAnonymizer;
+  analyzeOptions?: AnalyzeOptions;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  fields?: Record<string, FieldConfig>;
+}
+
+/**
+ * Result of anonymizing a structured value
+ */
+export interface StructuredAnonymizerResult<T> {
+  value: T;
+  changedPaths: string[];
+}
+
+/**
+ * Anonymizes every string in a JSON value, returning a value of the same shape
+ */
+export declare class StructuredAnonymizer {
+  constructor(options: StructuredAnonymizerOptions);
+  static parsePath(path: string): string[];
+  static formatPath(segments: Array<string | number>): string;
+  anonymize<T>(value: T): Promise<StructuredAnonymizerResult<T>>;
+}
+
+/**
+ * Options for creating a CSV anonymizer
+ */
+export interface CsvAnonymizerOptions {
+  analyzer: PresidioAnalyzer;
+  anonymizer?: PresidioAnonymizer;
+  analyzeOptions?: AnalyzeOptions;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  delimiter?: string;
+  hasHeader?: boolean;
+  sampleSize?: number;
+  inferenceThreshold?: number;
+}
+
+/**
+ * What was detected in one column
+ */
+export interface CsvColumnReport {
+  index: number;
+  name: string;
+  inferredEntityType?: EntityTypeName;
+  mode: 'column' | 'cell';
+  entityCounts: Record<string, number>;
+}
+
+/**
+ * Result of anonymizing a CSV document
+ */
+export interface CsvAnonymizerResult {
+  text: string;
+  report: CsvColumnReport[];
+}
+
+/**
+ * Anonymizes CSV data column by column
+ */
+export declare class CsvAnonymizer {
+  constructor(options: CsvAnonymizerOptions);
+  anonymize(csv: string): Promise<CsvAnonymizerResult>;
+}
+
+/**
+ * A regex pattern of a policy recognizer
+ */
+export interface PatternPolicy {
+  name: string;
+  regex: string;
+  flags?: string;
+  score: number;
+  validate?: string;
+}
+
+/**
+ * A custom recognizer in a policy: either regex patterns or a deny list
+ */
+export interface RecognizerPolicy {
+  name: string;
+  entityType: EntityTypeName;
+  language?: string;
+  context?: string[];
+  patterns?: PatternPolicy[];
+  denyList?: string[];
+  caseSensitive?: boolean;
+  score?: number;
+}
+
+/**
+ * An operator as written in a policy (CUSTOM operators are not allowed)
+ */
+export type OperatorPolicy = Omit<
+  OperatorConfig,
+  'type' | 'vault' | 'customFunction'
+> & {
+  type: Exclude<`${OperatorType}`, 'custom'>;
+};
+
+/**
+ * Declarative analyzer and anonymizer configuration
+ */
+export interface PolicyConfig {
+  languages?: string[];
+  defaultLanguage?: string;
+  useNER?: boolean;
+  modelName?: string;
+  nerModels?: Record<string, string>;
+  builtins?: string[];
+  scoreThreshold?: number;
+  allowList?: Array<string | { regex: string; flags?: string }>;
+  allowListIgnoreCase?: boolean;
+  recognizers?: RecognizerPolicy[];
+  operators?: Record<string, OperatorPolicy | OperatorPolicy[]>;
+}
+
+/**
+ * An analyzer and anonymizer configured from a policy, with their options
+ */
+export interface Policy {
+  analyzer: PresidioAnalyzer;
+  anonymizer: PresidioAnonymizer;
+  analyzeOptions: AnalyzeOptions;
+  operators: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+}
+
+export declare function parsePolicy(
+  text: string,
+  format?: 'json' | 'yaml'
+): PolicyConfig;
+export declare function validatePolicy(value: unknown): PolicyConfig;
+export declare function createPolicy(config: PolicyConfig): Policy;
+export declare function loadPolicyFile(path: string): Promise<Policy>;
+
+/**
+ * A labeled entity in an evaluation example
+ */
+export interface GoldSpan {
+  entityType: EntityTypeName;
+  start: number;
+  end: number;
+}
+
+/**
+ * A text with the entities it contains
+ */
+export interface EvaluationExample {
+  id?: string;
+  text: string;
+  language?: string;
+  spans: GoldSpan[];
+}
+
+/**
+ * Options for evaluate
+ */
+export interface EvaluationOptions {
+  analyzeOptions?: AnalyzeOptions;
+  /** Only score these entity types */
+  entities?: EntityTypeName[];
+  /** Renames gold entity types before scoring */
+  labelMap?: Record<string, EntityTypeName>;
+}
+
+/**
+ * Counts and scores of one entity type, or of all types together
+ */
+export interface EntityMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * A gold span that was missed, or a result that matches no gold span
+ */
+export interface EvaluationMismatch {
+  example: number;
+  id?: string;
+  entityType: EntityTypeName;
+  start: number;
+  end: number;
+  text: string;
+  score?: number;
+}
+
+/**
+ * Scores under one matching rule
+ */
+export interface EvaluationScores {
+  entities: Record<string, EntityMetrics>;
+  overall: EntityMetrics;
+  falsePositives: EvaluationMismatch[];
+  falseNegatives: EvaluationMismatch[];
+}
+
+/**
+ * Result of evaluating an analyzer on a labeled dataset
+ */
+export interface EvaluationReport {
+  examples: number;
+  exact: EvaluationScores;
+  partial: EvaluationScores;
+  /** Gold type (rows) against predicted type (columns); 'O' for none */
+  confusionMatrix: Record<string, Record<string, number>>;
+}
+
+export declare function parseEvaluationDataset(
+  text: string
+): EvaluationExample[];
+export declare function loadEvaluationDataset(
+  path: string
+): Promise<EvaluationExample[]>;
+export declare function evaluate(
+  analyzer: PresidioAnalyzer,
+  examples: EvaluationExample[],
+  options?: EvaluationOptions
+): Promise<EvaluationReport>;
+export declare function formatEvaluationReport(report: EvaluationReport): string;
+
+/**
+ * Deanonymizer that restores values produced by reversible operators
+ */
+export declare class PresidioDeanonymizer {
+  constructor(defaultOperator?: OperatorConfig);
+  deanonymize(
+    text: string,
+    items: AnonymizerResult["items"],
+    operators?: Map<EntityTypeName, OperatorConfig>
   ): AnonymizerResult;
+  restore(text: string, vault: EntityVault): string;
+}
+
+/**
+ * A value stored in an entity vault together with its placeholder
+ */
+export interface VaultEntry {
+  entityType: EntityTypeName;
+  value: string;
+  placeholder: string;
+}
+
+/**
+ * Serialized form of a vault
+ */
+export interface VaultData {
+  entries: VaultEntry[];
+}
+
+/**
+ * Storage for the value/placeholder pairs used by the PSEUDONYMIZE operator
+ */
+export interface EntityVault {
+  getPlaceholder(entityType: EntityTypeName, value: string): string;
+  getValue(placeholder: string): string | undefined;
+  toJSON(): VaultData;
+}
+
+/**
+ * Entity vault kept in memory
+ */
+export declare class InMemoryEntityVault implements EntityVault {
+  constructor(data?: VaultData);
+  static fromJSON(data: VaultData | string): InMemoryEntityVault;
+  getPlaceholder(entityType: EntityTypeName, value: string): string;
+  getValue(placeholder: string): string | undefined;
+  toJSON(): VaultData;
+}
+
+/**
+ * Generates realistic fake values that keep the format of the original
+ */
+export declare class SurrogateGenerator {
+  constructor(seed?: string | number);
+  generate(value: string, entityType: EntityTypeName): string;
+}
+
+/**
+ * AES-CBC encryption used by the ENCRYPT and DECRYPT operators
+ */
+export declare class AESCipher {
+  static encrypt(key: string, value: string): string;
+  static decrypt(key: string, encrypted: string): string;
+  static isValidKey(key: string): boolean;
+}
+
+/**
+ * Options for creating an NER recognizer
+ */
+export interface NERRecognizerOptions {
+  modelName?: string;
+  language?: string;
+  windowSize?: number;
+  windowOverlap?: number;
+  /** Most tokens the model reads at once (default 512) */
+  maxTokens?: number;
 }
 
 /**
  * NER-based recognizer using transformers.js
  */
-export declare class NERRecognizer {
-  constructor(modelName?: string);
-  initialize(): Promise<void>;
+export declare class NERRecognizer implements EntityRecognizer {
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  constructor(options?: string | NERRecognizerOptions);
+  initialize(options?: InitializeOptions): Promise<void>;
+  static splitIntoWindows(text: string, windowSize: number, windowOverlap: number): Array<{ start: number; end: number }>;
+  static locateTokens(text: string, tokens: Array<{ word?: string }>): Array<{ start: number; end: number } | null>;
   recognize(text: string): Promise<RecognizerResult[]>;
+  recognizeBatch(texts: string[]): Promise<RecognizerResult[][]>;
+}
+
+/**
+ * Options for creating an entropy recognizer
+ */
+export interface EntropyRecognizerOptions {
+  language?: string;
+  minLength?: number;
+  base64Threshold?: number;
+  /** Hexadecimal strings are only reported when this is set */
+  hexThreshold?: number;
+  score?: number;
+}
+
+/**
+ * Detects random-looking strings (keys, tokens) by their Shannon entropy
+ */
+export declare class EntropyRecognizer implements EntityRecognizer {
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  readonly context: string[];
+  constructor(options?: EntropyRecognizerOptions);
+  static shannonEntropy(text: string): number;
+  recognize(text: string): RecognizerResult[];
+}
+
+/**
+ * A named regular expression with the score given to its matches
+ */
+export interface Pattern {
+  name: string;
+  regex: RegExp;
+  score: number;
+  validate?: (match: string) => ValidationResult;
+  /** Only keep matches with one of the recognizer's context words nearby */
+  requiresContext?: boolean;
+}
+
+/**
+ * Options for creating a pattern recognizer
+ */
+export interface PatternRecognizerOptions {
+  name: string;
+  supportedEntity: EntityTypeName;
+  patterns: Pattern[];
+  supportedLanguage?: string;
+  context?: string[];
 }
 
 /**
  * Pattern-based recognizers for common PII types
  */
-export declare class PatternRecognizer {
+export declare class PatternRecognizer implements EntityRecognizer {
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  readonly context: string[];
+  constructor(options: PatternRecognizerOptions);
+  recognize(text: string): RecognizerResult[];
+  static createEmailRecognizer(language?: string): PatternRecognizer;
+  static createPhoneRecognizer(language?: string): PatternRecognizer;
+  static createCreditCardRecognizer(language?: string): PatternRecognizer;
+  static createSSNRecognizer(language?: string): PatternRecognizer;
+  static createIPAddressRecognizer(language?: string): PatternRecognizer;
+  static createURLRecognizer(language?: string): PatternRecognizer;
+  static createDateTimeRecognizer(language?: string): PatternRecognizer;
+  static createInternationalPhoneRecognizer(
+    language?: string
+  ): PatternRecognizer;
+  static createIBANRecognizer(language?: string): PatternRecognizer;
+  static createNINORecognizer(language?: string): PatternRecognizer;
+  static createNHSRecognizer(language?: string): PatternRecognizer;
+  static createVATRecognizer(language?: string): PatternRecognizer;
+  static createPassportRecognizer(language?: string): PatternRecognizer;
+  static createAWSAccessKeyRecognizer(language?: string): PatternRecognizer;
+  static createAPIKeyRecognizer(language?: string): PatternRecognizer;
+  static createJWTRecognizer(language?: string): PatternRecognizer;
+  static createBearerTokenRecognizer(language?: string): PatternRecognizer;
+  static createPrivateKeyRecognizer(language?: string): PatternRecognizer;
+  static createPasswordRecognizer(language?: string): PatternRecognizer;
+  static createURLCredentialsRecognizer(language?: string): PatternRecognizer;
+  static createDefaultRecognizers(language?: string): PatternRecognizer[];
   static recognizeEmail(text: string): RecognizerResult[];
   static recognizePhone(text: string): RecognizerResult[];
   static recognizeCreditCard(text: string): RecognizerResult[];
   static recognizeSSN(text: string): RecognizerResult[];
   static recognizeIPAddress(text: string): RecognizerResult[];
   static recognizeURL(text: string): RecognizerResult[];
+  static recognizeDateTime(text: string): RecognizerResult[];
+  static recognizeInternationalPhone(text: string): RecognizerResult[];
+  static recognizeIBAN(text: string): RecognizerResult[];
+  static recognizeNINO(text: string): RecognizerResult[];
+  static recognizeNHS(text: string): RecognizerResult[];
+  static recognizeVAT(text: string): RecognizerResult[];
+  static recognizePassport(text: string): RecognizerResult[];
+  static recognizeAWSAccessKey(text: string): RecognizerResult[];
+  static recognizeAPIKey(text: string): RecognizerResult[];
+  static recognizeJWT(text: string): RecognizerResult[];
+  static recognizeBearerToken(text: string): RecognizerResult[];
+  static recognizePrivateKey(text: string): RecognizerResult[];
+  static recognizePassword(text: string): RecognizerResult[];
+  static recognizeURLCredentials(text: string): RecognizerResult[];
   static recognizeAll(text: string): RecognizerResult[];
 }
+
+/**
+ * Outcome of validating a pattern match: `false` rejects the match, `true`
+ * keeps the pattern score and a number replaces the score (0 rejects)
+ */
+export type ValidationResult = boolean | number;
+
+export declare function luhnChecksum(digits: string): boolean;
+export declare function validateCreditCard(text: string): ValidationResult;
+export declare function validateUsSsn(text: string): ValidationResult;
+export declare function validateIPv4(text: string): ValidationResult;
+export declare function validateIPv6(text: string): ValidationResult;
+export declare function validateIsoDate(text: string): ValidationResult;
+export declare function validateNumericDate(text: string): ValidationResult;
+export declare function validateWrittenDate(text: string): ValidationResult;
+export declare function validateIban(text: string): ValidationResult;
+export declare function validateUkNino(text: string): ValidationResult;
+export declare function validateUkNhs(text: string): ValidationResult;
+export declare function validateEuVat(text: string): ValidationResult;
+export declare function validatePhoneNumber(text: string): ValidationResult;
+export declare function validateJwt(text: string): ValidationResult;
+
+/**
+ * Options for creating a deny-list recognizer
+ */
+export interface DenyListRecognizerOptions {
+  name?: string;
+  supportedEntity: EntityTypeName;
+  denyList: string[];
+  supportedLanguage?: string;
+  score?: number;
+  caseSensitive?: boolean;
+  context?: string[];
+}
+
+/**
+ * Flags every whole-word occurrence of a listed term as one entity type
+ */
+export declare class DenyListRecognizer implements EntityRecognizer {
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  readonly context: string[];
+  constructor(options: DenyListRecognizerOptions);
+  addTerm(term: string): void;
+  recognize(text: string): RecognizerResult[];
+}
+
+/**
+ * Holds the recognizers used by the analyzer
+ */
+export declare class RecognizerRegistry {
+  constructor(recognizers?: EntityRecognizer[]);
+  loadPredefinedRecognizers(options?: {
+    useNER?: boolean;
+    modelName?: string;
+    languages?: string[];
+    nerModels?: Record<string, string>;
+  }): void;
+  add(recognizer: EntityRecognizer): void;
+  remove(name: string, language?: string): boolean;
+  get(name: string, language?: string): EntityRecognizer | undefined;
+  getRecognizers(entities?: EntityTypeName[], language?: string): EntityRecognizer[];
+  getSupportedEntities(language?: string): EntityTypeName[];
+  getSupportedLanguages(): string[];
+}
@@ -0,0 +1,37 @@
+/**
+ * AnonymizerTS Presidio-compatible HTTP server, imported from
+ * '@siddicky/anonymizerts/server' so the main entry does not load Node's http
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  EntityVault,
+  OperatorConfig,
+  PresidioAnalyzer,
+} from './index.js';
+
+/**
+ * Options for creating a Presidio-compatible HTTP server
+ */
+export interface PresidioServerOptions {
+  analyzer: PresidioAnalyzer;
+  /** Operator for /anonymize requests without a DEFAULT (default REDACT) */
+  defaultOperator?: OperatorConfig;
+  /** Vault shared by all /anonymize requests (default: one per request) */
+  vault?: EntityVault;
+  /** Largest accepted request body, in bytes (default 1 MiB) */
+  maxBodySize?: number;
+  /** Load models and run a first analysis before listening (default true) */
+  warmUp?: boolean;
+}
+
+/**
+ * HTTP server with the endpoints and JSON field names of Presidio's REST API
+ */
+export declare class PresidioServer {
+  readonly server: Server;
+  constructor(options: PresidioServerOptions);
+  listen(port?: number, host?: string): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,74 @@
+import * as crypto from 'crypto';
+
+/**
+ * AES-CBC encryption used by the ENCRYPT and DECRYPT operators. Output is
+ * base64 of a random IV followed by the ciphertext
+ */
+export class AESCipher {
+  /**
+   * Encrypt a value with a 128, 192 or 256-bit key
+   */
+  static encrypt(key: string, value: string): string {
+    const keyBuffer = this.keyBuffer(key);
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv(
+      this.algorithm(keyBuffer),
+      keyBuffer,
+      iv
+    );
+    const encrypted = Buffer.concat([
+      iv,
+      cipher.update(value, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return encrypted.toString('base64');
+  }
+
+  /**
+   * Decrypt a value produced by encrypt() with the same key
+   */
+  static decrypt(key: string, encrypted: string): string {
+    const keyBuffer = this.keyBuffer(key);
+    const data = Buffer.from(encrypted, 'base64');
+
+    if (data.length <= 16) {
+      throw new Error('Invalid encrypted value: too short to contain an IV');
+    }
+
+    const decipher = crypto.createDecipheriv(
+      this.algorithm(keyBuffer),
+      keyBuffer,
+      data.subarray(0, 16)
+    );
+
+    const decrypted = Buffer.concat([
+      decipher.update(data.subarray(16)),
+      decipher.final(),
+    ]);
+
+    return decrypted.toString('utf8');
+  }
+
+  /**
+   * Check that a key has a valid AES length
+   */
+  static isValidKey(key: string): boolean {
+    return [16, 24, 32].includes(Buffer.byteLength(key, 'utf8'));
+  }
+
+  private static keyBuffer(key: string): Buffer {
+    if (!key || !this.isValidKey(key)) {
+      throw new Error(
+        'Invalid encryption key: must be 128, 192 or 256 bits ' +
+          '(16, 24 or 32 bytes)'
+      );
+    }
+
+    return Buffer.from(key, 'utf8');
+  }
+
+  private static algorithm(keyBuffer: Buffer): string {
+    return `aes-${keyBuffer.length * 8}-cbc`;
+  }
+}
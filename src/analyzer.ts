@@ -1,51 +1,289 @@
-import { EntityType, RecognizerResult } from './types.js';
-import { NERRecognizer } from './nerRecognizer.js';
-import { PatternRecognizer } from './patternRecognizer.js';
+import {
+  EntityRecognizer,
+  EntityTypeName,
+  InitializeOptions,
+  RecognizerResult,
+} from './types.js';
+import { RecognizerRegistry } from './recognizerRegistry.js';
+import { ContextEnhancer, ContextEnhancerOptions } from './contextEnhancer.js';
+import {
+  BatchItemResult,
+  BatchOptions,
+  mapConcurrent,
+  toError,
+} from './batch.js';
+
+/**
+ * Options for creating an analyzer
+ */
+export interface AnalyzerOptions {
+  useNER?: boolean;
+  /** NER model for English */
+  modelName?: string;
+  /** Languages to register built-in recognizers for (default ['en']) */
+  languages?: string[];
+  /**
+   * NER model per language, e.g.
+   * { de: 'Xenova/bert-base-multilingual-cased-ner-hrl' }
+   */
+  nerModels?: Record<string, string>;
+  /** Language used when analyze is not given one (default: first language) */
+  defaultLanguage?: string;
+  /** Recognizers to run. When omitted, the built-in recognizers are registered */
+  registry?: RecognizerRegistry;
+  /** Context-word score enhancement settings */
+  context?: ContextEnhancerOptions;
+  /** Results scoring below this are dropped unless overridden per call (default 0) */
+  defaultScoreThreshold?: number;
+}
+
+/**
+ * Per-call analysis options
+ */
+export interface AnalyzeOptions {
+  /** Only return these entity types */
+  entities?: EntityTypeName[];
+  /** Language of the text; only recognizers supporting it are run */
+  language?: string;
+  /** Drop results scoring below this value */
+  scoreThreshold?: number;
+  /** Attach an analysisExplanation to each result */
+  returnDecisionProcess?: boolean;
+  /**
+   * Values that are never reported, such as the company name or a public
+   * support address. A string must equal the whole matched text; a RegExp
+   * must match the whole matched text
+   */
+  allowList?: Array<string | RegExp>;
+  /** Compare string allowList entries case-insensitively (default false) */
+  allowListIgnoreCase?: boolean;
+}
+
+/**
+ * Options for analyzeBatch
+ */
+export interface AnalyzeBatchOptions extends AnalyzeOptions, BatchOptions {
+  /** Number of texts passed to each recognizer call (default 32) */
+  batchSize?: number;
+}
+
+/**
+ * Results produced by one recognizer for one text
+ */
+interface RecognizerOutput {
+  recognizer: EntityRecognizer;
+  results: RecognizerResult[];
+}
 
 /**
  * Main analyzer that combines NER and pattern-based recognition
  */
 export class PresidioAnalyzer {
-  private nerRecognizer: NERRecognizer;
-  private useNER: boolean;
+  readonly registry: RecognizerRegistry;
+  private contextEnhancer: ContextEnhancer;
+  private defaultScoreThreshold: number;
+  private defaultLanguage: string;
 
-  constructor(options: { useNER?: boolean; modelName?: string } = {}) {
-    this.useNER = options.useNER ?? true;
-    this.nerRecognizer = new NERRecognizer(options.modelName);
+  constructor(options: AnalyzerOptions = {}) {
+    this.contextEnhancer = new ContextEnhancer(options.context);
+    this.defaultScoreThreshold = options.defaultScoreThreshold ?? 0;
+    this.defaultLanguage =
+      options.defaultLanguage ?? options.languages?.[0] ?? 'en';
+
+    if (options.registry) {
+      this.registry = options.registry;
+    } else {
+      this.registry = new RecognizerRegistry();
+      this.registry.loadPredefinedRecognizers({
+        useNER: options.useNER,
+        modelName: options.modelName,
+        languages: options.languages,
+        nerModels: options.nerModels,
+      });
+    }
   }
 
   /**
    * Initialize the analyzer (loads NER model if enabled)
    */
-  async initialize(): Promise<void> {
-    if (this.useNER) {
-      await this.nerRecognizer.initialize();
+  async initialize(options?: InitializeOptions): Promise<void> {
+    for (const recognizer of this.registry.getRecognizers()) {
+      if (recognizer.initialize) {
+        await recognizer.initialize(options);
+      }
     }
   }
 
   /**
-   * Analyze text and return all detected entities
+   * Analyze text and return all detected entities. Accepts either a list of
+   * entity types to return or an options object
    */
   async analyze(
     text: string,
-    entities?: EntityType[]
+    options?: EntityTypeName[] | AnalyzeOptions
   ): Promise<RecognizerResult[]> {
-    const results: RecognizerResult[] = [];
+    const analyzeOptions = Array.isArray(options)
+      ? { entities: options }
+      : options ?? {};
+    const recognized: RecognizerOutput[] = [];
+
+    // Run every recognizer for the language that can produce a requested
+    // entity
+    for (const recognizer of this.getRecognizers(analyzeOptions)) {
+      recognized.push({ recognizer, results: await recognizer.recognize(text) });
+    }
+
+    return this.combineResults(text, recognized, analyzeOptions);
+  }
 
-    // Run pattern-based recognizers
-    const patternResults = PatternRecognizer.recognizeAll(text);
-    results.push(...patternResults);
+  /**
+   * Analyze many texts. Texts are passed to recognizers in batches of
+   * batchSize (using recognizeBatch where a recognizer provides it), with up
+   * to `concurrency` batches in flight. A text whose analysis fails gets an
+   * error in its result instead of failing the whole batch
+   */
+  async analyzeBatch(
+    texts: string[],
+    options: AnalyzeBatchOptions = {}
+  ): Promise<BatchItemResult<RecognizerResult[]>[]> {
+    const { batchSize = 32, concurrency = 4, onProgress } = options;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error('batchSize must be a positive integer');
+    }
+    const recognizers = this.getRecognizers(options);
 
-    // Run NER-based recognizer if enabled
-    if (this.useNER) {
-      const nerResults = await this.nerRecognizer.recognize(text);
-      results.push(...nerResults);
+    const batches: Array<{ start: number; texts: string[] }> = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      batches.push({ start, texts: texts.slice(start, start + batchSize) });
     }
 
-    // Filter by requested entity types if specified
-    let filteredResults = entities
-      ? results.filter((r) => entities.includes(r.entityType))
-      : results;
+    let completed = 0;
+    const batchResults = await mapConcurrent(
+      batches,
+      concurrency,
+      async (batch) => {
+        const results = await this.analyzeChunk(
+          batch.texts,
+          recognizers,
+          options
+        );
+        completed += batch.texts.length;
+        onProgress?.(completed, texts.length);
+
+        return results.map((result) => ({
+          ...result,
+          index: result.index + batch.start,
+        }));
+      }
+    );
+
+    return batchResults.flat();
+  }
+
+  /**
+   * Analyze one batch of texts, recording errors per text
+   */
+  private async analyzeChunk(
+    texts: string[],
+    recognizers: EntityRecognizer[],
+    options: AnalyzeOptions
+  ): Promise<BatchItemResult<RecognizerResult[]>[]> {
+    const items = texts.map(() => ({
+      recognized: [] as RecognizerOutput[],
+      error: undefined as Error | undefined,
+    }));
+
+    for (const recognizer of recognizers) {
+      // If the batched call fails, fall back to one call per text so the
+      // error is attributed to the texts that cause it
+      const batched = recognizer.recognizeBatch
+        ? await recognizer.recognizeBatch(texts).catch(() => undefined)
+        : undefined;
+
+      for (let i = 0; i < texts.length; i++) {
+        if (items[i].error) continue;
+
+        try {
+          const results = batched?.[i] ?? (await recognizer.recognize(texts[i]));
+          items[i].recognized.push({ recognizer, results });
+        } catch (error) {
+          items[i].error = toError(error);
+        }
+      }
+    }
+
+    return items.map(({ recognized, error }, index) => {
+      if (error) return { index, error };
+
+      try {
+        return {
+          index,
+          result: this.combineResults(texts[index], recognized, options),
+        };
+      } catch (combineError) {
+        return { index, error: toError(combineError) };
+      }
+    });
+  }
+
+  /**
+   * Get the recognizers to run for a call, failing if none supports its
+   * language
+   */
+  private getRecognizers(options: AnalyzeOptions): EntityRecognizer[] {
+    const language = options.language ?? this.defaultLanguage;
+
+    if (!this.registry.getSupportedLanguages().includes(language)) {
+      throw new Error(`No recognizers registered for language '${language}'`);
+    }
+
+    return this.registry.getRecognizers(options.entities, language);
+  }
+
+  /**
+   * Turn raw recognizer output into the final results: apply context
+   * enhancement, filter by entity type and score, and remove overlaps
+   */
+  private combineResults(
+    text: string,
+    recognized: RecognizerOutput[],
+    options: AnalyzeOptions
+  ): RecognizerResult[] {
+    const {
+      entities,
+      scoreThreshold = this.defaultScoreThreshold,
+      returnDecisionProcess = false,
+    } = options;
+    const results: RecognizerResult[] = [];
+
+    // Boost scores where a recognizer's context words surround a match
+    for (const { recognizer, results: recognizerResults } of recognized) {
+      const explained = recognizerResults.map((result) =>
+        result.analysisExplanation
+          ? result
+          : {
+              ...result,
+              analysisExplanation: {
+                recognizer: recognizer.name,
+                originalScore: result.score,
+                scoreAdjustments: [],
+                supersededResults: [],
+              },
+            }
+      );
+      results.push(
+        ...this.contextEnhancer.enhance(text, explained, recognizer.context ?? [])
+      );
+    }
+
+    // Filter by requested entity types, score threshold and allow list
+    const isAllowed = this.createAllowListMatcher(options);
+    let filteredResults = results.filter(
+      (r) =>
+        (!entities || entities.includes(r.entityType)) &&
+        r.score >= scoreThreshold &&
+        !isAllowed(text.substring(r.start, r.end))
+    );
 
     // Remove overlapping entities (keep higher score)
     filteredResults = this.removeOverlaps(filteredResults);
@@ -53,9 +291,44 @@ export class PresidioAnalyzer {
     // Sort by position
     filteredResults.sort((a, b) => a.start - b.start);
 
+    if (!returnDecisionProcess) {
+      return filteredResults.map(
+        ({ analysisExplanation, ...result }) => result
+      );
+    }
+
     return filteredResults;
   }
 
+  /**
+   * Build a predicate telling whether a matched text is allow-listed
+   */
+  private createAllowListMatcher(
+    options: AnalyzeOptions
+  ): (value: string) => boolean {
+    const { allowList = [], allowListIgnoreCase = false } = options;
+    if (allowList.length === 0) return () => false;
+
+    const fold = (value: string) =>
+      allowListIgnoreCase ? value.toLowerCase() : value;
+    const exact = new Set<string>();
+    const patterns: RegExp[] = [];
+
+    for (const entry of allowList) {
+      if (typeof entry === 'string') {
+        exact.add(fold(entry));
+      } else {
+        // Anchor the pattern so it has to match the whole value
+        patterns.push(
+          new RegExp(`^(?:${entry.source})$`, entry.flags.replace(/[gy]/g, ''))
+        );
+      }
+    }
+
+    return (value) =>
+      exact.has(fold(value)) || patterns.some((pattern) => pattern.test(value));
+  }
+
   /**
    * Remove overlapping entities, keeping the one with higher score
    */
@@ -71,15 +344,38 @@ export class PresidioAnalyzer {
     const filtered: RecognizerResult[] = [];
 
     for (const result of sorted) {
-      const hasOverlap = filtered.some(
+      const winnerIndex = filtered.findIndex(
         (existing) =>
           (result.start >= existing.start && result.start < existing.end) ||
           (result.end > existing.start && result.end <= existing.end) ||
           (result.start <= existing.start && result.end >= existing.end)
       );
 
-      if (!hasOverlap) {
+      if (winnerIndex < 0) {
         filtered.push(result);
+        continue;
+      }
+
+      // Record the discarded result on the one it lost to
+      const winner = filtered[winnerIndex];
+      const explanation = winner.analysisExplanation;
+      if (explanation) {
+        filtered[winnerIndex] = {
+          ...winner,
+          analysisExplanation: {
+            ...explanation,
+            supersededResults: [
+              ...explanation.supersededResults,
+              {
+                entityType: result.entityType,
+                start: result.start,
+                end: result.end,
+                score: result.score,
+                recognizer: result.analysisExplanation?.recognizer ?? '',
+              },
+            ],
+          },
+        };
       }
     }
 
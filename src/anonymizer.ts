@@ -4,55 +4,199 @@ import {
   OperatorType,
   OperatorConfig,
   AnonymizerResult,
-  EntityType,
+  EntityTypeName,
 } from './types.js';
+import { AESCipher } from './aesCipher.js';
+import { EntityVault, InMemoryEntityVault } from './entityVault.js';
+import { SurrogateGenerator } from './surrogate.js';
+import {
+  BatchItemResult,
+  BatchOptions,
+  mapConcurrent,
+  toError,
+} from './batch.js';
 
 /**
  * Anonymizer that applies various anonymization operators to detected entities
  */
 export class PresidioAnonymizer {
+  /** Vault used by PSEUDONYMIZE operators that do not configure their own */
+  readonly vault: EntityVault;
   private defaultOperator: OperatorConfig;
+  private surrogateGenerators = new Map<string, SurrogateGenerator>();
 
-  constructor(defaultOperator: OperatorConfig = { type: OperatorType.REDACT }) {
+  constructor(
+    defaultOperator: OperatorConfig = { type: OperatorType.REDACT },
+    vault: EntityVault = new InMemoryEntityVault()
+  ) {
     this.defaultOperator = defaultOperator;
+    this.vault = vault;
   }
 
   /**
-   * Anonymize text based on analyzer results
+   * Anonymize text based on analyzer results. An entity type may map to a
+   * single operator or to a chain applied in order
    */
   anonymize(
     text: string,
     analyzerResults: RecognizerResult[],
-    operators?: Map<EntityType, OperatorConfig>
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>
   ): AnonymizerResult {
-    // Sort results by position in reverse order to maintain correct indices
-    const sortedResults = [...analyzerResults].sort((a, b) => b.start - a.start);
+    // Compute replacements in reading order so pseudonyms are numbered by
+    // first appearance
+    const sortedResults = this.removeOverlaps(analyzerResults);
+    const replacements = sortedResults.map((result) => {
+      const chain = this.getOperatorChain(result.entityType, operators);
+      let value = result.text;
 
-    let anonymizedText = text;
-    const items: AnonymizerResult['items'] = [];
+      for (const operator of chain) {
+        const applied = this.applyOperator(value, operator, result, text);
+        if (typeof applied !== 'string') {
+          // The Promise is abandoned, so its rejection must not go unhandled
+          Promise.resolve(applied).catch(() => {});
+          throw new Error(
+            'Custom operator returned a Promise; use anonymizeAsync instead'
+          );
+        }
+        value = applied;
+      }
+
+      return { operator: chain[chain.length - 1], value };
+    });
+
+    return this.buildResult(text, sortedResults, replacements);
+  }
+
+  /**
+   * Anonymize text like anonymize(), awaiting asynchronous CUSTOM operators
+   */
+  async anonymizeAsync(
+    text: string,
+    analyzerResults: RecognizerResult[],
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>
+  ): Promise<AnonymizerResult> {
+    const sortedResults = this.removeOverlaps(analyzerResults);
+    const replacements: Array<{ operator: OperatorConfig; value: string }> = [];
 
     for (const result of sortedResults) {
-      const operator = operators?.get(result.entityType) || this.defaultOperator;
-      const anonymizedValue = this.applyOperator(result.text, operator, result.entityType);
+      const chain = this.getOperatorChain(result.entityType, operators);
+      let value = result.text;
+
+      for (const operator of chain) {
+        value = await this.applyOperator(value, operator, result, text);
+      }
+
+      replacements.push({ operator: chain[chain.length - 1], value });
+    }
+
+    return this.buildResult(text, sortedResults, replacements);
+  }
+
+  /**
+   * Anonymize many texts, each with its own analyzer results (as returned by
+   * PresidioAnalyzer.analyzeBatch). Up to `concurrency` texts are processed
+   * at once; a text that fails gets an error instead of failing the batch
+   */
+  async anonymizeBatch(
+    texts: string[],
+    analyzerResults: RecognizerResult[][],
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>,
+    options: BatchOptions = {}
+  ): Promise<BatchItemResult<AnonymizerResult>[]> {
+    if (analyzerResults.length !== texts.length) {
+      throw new Error('Expected one list of analyzer results per text');
+    }
+
+    const { concurrency = 4, onProgress } = options;
+    let completed = 0;
+
+    return mapConcurrent(texts, concurrency, async (text, index) => {
+      let item: BatchItemResult<AnonymizerResult>;
+      try {
+        item = {
+          index,
+          result: await this.anonymizeAsync(
+            text,
+            analyzerResults[index],
+            operators
+          ),
+        };
+      } catch (error) {
+        item = { index, error: toError(error) };
+      }
+
+      onProgress?.(++completed, texts.length);
+      return item;
+    });
+  }
+
+  /**
+   * Get the operators to apply to an entity type, falling back to the default
+   */
+  private getOperatorChain(
+    entityType: EntityTypeName,
+    operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>
+  ): OperatorConfig[] {
+    const configured = operators?.get(entityType);
+
+    if (Array.isArray(configured)) {
+      return configured.length > 0 ? configured : [this.defaultOperator];
+    }
+
+    return [configured || this.defaultOperator];
+  }
+
+  /**
+   * Sort results by position and drop those overlapping an earlier one,
+   * which cannot both be replaced. This happens before any operator runs, so
+   * dropped results use up no pseudonyms and trigger no CUSTOM calls
+   */
+  private removeOverlaps(results: RecognizerResult[]): RecognizerResult[] {
+    const sorted = [...results].sort((a, b) => a.start - b.start);
+    const kept: RecognizerResult[] = [];
+    let cursor = 0;
+
+    for (const result of sorted) {
+      if (result.start < cursor) continue;
+      kept.push(result);
+      cursor = result.end;
+    }
+
+    return kept;
+  }
+
+  /**
+   * Splice the replacement values into the text, recording each item's span
+   * in both the original and the anonymized text
+   */
+  private buildResult(
+    text: string,
+    sortedResults: RecognizerResult[],
+    replacements: Array<{ operator: OperatorConfig; value: string }>
+  ): AnonymizerResult {
+    let anonymizedText = '';
+    let cursor = 0;
+    const items: AnonymizerResult['items'] = [];
 
-      // Replace in text
-      anonymizedText =
-        anonymizedText.substring(0, result.start) +
-        anonymizedValue +
-        anonymizedText.substring(result.end);
+    sortedResults.forEach((result, i) => {
+      const { operator, value: anonymizedValue } = replacements[i];
+      anonymizedText += text.substring(cursor, result.start);
 
-      // Track the change (positions relative to original text)
       items.push({
-        start: result.start,
-        end: result.start + anonymizedValue.length,
+        start: anonymizedText.length,
+        end: anonymizedText.length + anonymizedValue.length,
+        originalStart: result.start,
+        originalEnd: result.end,
         entityType: result.entityType,
         text: anonymizedValue,
         operator: operator.type,
       });
-    }
 
-    // Reverse items to maintain original order
-    items.reverse();
+      anonymizedText += anonymizedValue;
+      cursor = result.end;
+    });
+
+    anonymizedText += text.substring(cursor);
 
     return {
       text: anonymizedText,
@@ -66,8 +210,11 @@ export class PresidioAnonymizer {
   private applyOperator(
     value: string,
     operator: OperatorConfig,
-    entityType: EntityType
-  ): string {
+    result: RecognizerResult,
+    text: string
+  ): string | Promise<string> {
+    const { entityType } = result;
+
     switch (operator.type) {
       case OperatorType.REDACT:
         return `<${entityType}>`;
@@ -84,10 +231,37 @@ export class PresidioAnonymizer {
         );
 
       case OperatorType.HASH:
-        return this.hashValue(value);
+        return this.hashValue(value, operator, entityType);
+
+      case OperatorType.ENCRYPT:
+        return AESCipher.encrypt(operator.key ?? '', value);
+
+      case OperatorType.PSEUDONYMIZE:
+        return (operator.vault ?? this.vault).getPlaceholder(entityType, value);
+
+      case OperatorType.SURROGATE:
+        return this.surrogateGenerator(operator.seed).generate(value, entityType);
+
+      case OperatorType.CUSTOM:
+        if (!operator.customFunction) {
+          throw new Error('CUSTOM operator requires a customFunction');
+        }
+        return operator.customFunction(value, {
+          entityType,
+          score: result.score,
+          start: result.start,
+          end: result.end,
+          text,
+        });
+
+      case OperatorType.DECRYPT:
+        throw new Error(
+          "Operator 'decrypt' cannot be used to anonymize; " +
+            'use PresidioDeanonymizer'
+        );
 
       default:
-        return `<${entityType}>`;
+        throw new Error(`Unknown operator type '${operator.type}'`);
     }
   }
 
@@ -114,9 +288,54 @@ export class PresidioAnonymizer {
   }
 
   /**
-   * Hash a value using SHA-256
+   * Get the surrogate generator for a seed. Unseeded operators share one
+   * randomly seeded generator per anonymizer
    */
-  private hashValue(value: string): string {
-    return crypto.createHash('sha256').update(value).digest('hex').substring(0, 16);
+  private surrogateGenerator(seed?: string | number): SurrogateGenerator {
+    const key = seed === undefined ? '' : `seed:${seed}`;
+    let generator = this.surrogateGenerators.get(key);
+
+    if (!generator) {
+      generator = new SurrogateGenerator(seed);
+      this.surrogateGenerators.set(key, generator);
+    }
+
+    return generator;
+  }
+
+  /**
+   * Hash a value (SHA-256 by default). With a hashKey the value is hashed
+   * with HMAC, so hashes cannot be reversed by hashing candidate values
+   */
+  private hashValue(
+    value: string,
+    operator: OperatorConfig,
+    entityType: EntityTypeName
+  ): string {
+    const algorithm = operator.hashType ?? 'sha256';
+    if (!crypto.getHashes().includes(algorithm)) {
+      throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+    }
+
+    const hash = operator.hashKey
+      ? crypto.createHmac(algorithm, operator.hashKey)
+      : crypto.createHash(algorithm);
+    const fullDigest = hash
+      .update((operator.salt ?? '') + value)
+      .digest(operator.hashEncoding ?? 'hex');
+    const length = operator.hashLength ?? 16;
+    if (
+      !Number.isInteger(length) ||
+      length < 1 ||
+      (operator.hashLength !== undefined && length > fullDigest.length)
+    ) {
+      throw new Error(
+        `hashLength must be an integer from 1 to ${fullDigest.length} ` +
+          `for ${algorithm}, got ${length}`
+      );
+    }
+    const digest = fullDigest.substring(0, length);
+
+    return operator.hashPrefix ? `${entityType}_${digest}` : digest;
   }
 }
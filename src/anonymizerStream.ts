@@ -0,0 +1,213 @@
+import { Transform, TransformCallback } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import {
+  EntityTypeName,
+  OperatorConfig,
+  RecognizerResult,
+} from './types.js';
+import { PresidioAnalyzer, AnalyzeOptions } from './analyzer.js';
+import { PresidioAnonymizer } from './anonymizer.js';
+
+/**
+ * Options for streaming anonymization
+ */
+export interface AnonymizerStreamOptions {
+  analyzer: PresidioAnalyzer;
+  /** Anonymizer to apply (default: a new REDACT anonymizer) */
+  anonymizer?: PresidioAnonymizer;
+  analyzeOptions?: AnalyzeOptions;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  /**
+   * Characters held back at the end of the buffer so that an entity crossing
+   * a chunk boundary is analyzed whole (default 256)
+   */
+  lookahead?: number;
+  /** Only process and emit complete lines (default false) */
+  lineMode?: boolean;
+}
+
+/**
+ * Start of a PEM private key block. Key blocks are longer than the default
+ * lookahead, so output is held back from an unterminated one
+ */
+const PRIVATE_KEY_BEGIN = /-----BEGIN ([A-Z0-9 ]*PRIVATE KEY)-----/g;
+/** Longest key block held back; an 8192-bit RSA key is about 6,500 chars */
+const MAX_KEY_BLOCK_LENGTH = 16384;
+
+/**
+ * Transform stream that anonymizes text as it passes through. Output is
+ * delayed by up to `lookahead` characters (or to the end of the current line
+ * in line mode), and everything left is flushed when the input ends
+ */
+export class AnonymizerStream extends Transform {
+  private buffer: IncrementalAnonymizer;
+  private decoder = new StringDecoder('utf8');
+
+  constructor(options: AnonymizerStreamOptions) {
+    super();
+    this.buffer = new IncrementalAnonymizer(options);
+  }
+
+  /**
+   * Anonymize an iterable of text chunks (such as a readable stream),
+   * yielding anonymized text as it becomes safe to emit
+   */
+  static async *anonymize(
+    source: AsyncIterable<string | Buffer> | Iterable<string | Buffer>,
+    options: AnonymizerStreamOptions
+  ): AsyncGenerator<string> {
+    const buffer = new IncrementalAnonymizer(options);
+    const decoder = new StringDecoder('utf8');
+
+    for await (const chunk of source) {
+      const output = await buffer.push(
+        typeof chunk === 'string' ? chunk : decoder.write(chunk)
+      );
+      if (output) yield output;
+    }
+
+    const rest = await buffer.flush(decoder.end());
+    if (rest) yield rest;
+  }
+
+  _transform(
+    chunk: Buffer | string,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+
+    this.buffer.push(text).then(
+      (output) => callback(null, output || undefined),
+      callback
+    );
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.buffer.flush(this.decoder.end()).then(
+      (output) => callback(null, output || undefined),
+      callback
+    );
+  }
+}
+
+/**
+ * Buffers incoming text and anonymizes the part that no longer depends on
+ * text still to come
+ */
+class IncrementalAnonymizer {
+  private analyzer: PresidioAnalyzer;
+  private anonymizer: PresidioAnonymizer;
+  private analyzeOptions?: AnalyzeOptions;
+  private operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  private lookahead: number;
+  private lineMode: boolean;
+  private pending = '';
+
+  constructor(options: AnonymizerStreamOptions) {
+    this.analyzer = options.analyzer;
+    this.anonymizer = options.anonymizer ?? new PresidioAnonymizer();
+    this.analyzeOptions = options.analyzeOptions;
+    this.operators = options.operators;
+    this.lookahead = options.lookahead ?? 256;
+    this.lineMode = options.lineMode ?? false;
+
+    if (!Number.isInteger(this.lookahead) || this.lookahead < 0) {
+      throw new Error('lookahead must be a non-negative integer');
+    }
+  }
+
+  /**
+   * Add a chunk and return the anonymized text that can be emitted now
+   */
+  async push(chunk: string): Promise<string> {
+    this.pending += chunk;
+
+    if (this.lineMode) {
+      const end = Math.min(
+        this.pending.lastIndexOf('\n') + 1,
+        this.openKeyBlockStart()
+      );
+      return end > 0 ? this.emit(end) : '';
+    }
+
+    if (this.pending.length <= this.lookahead) return '';
+
+    // Cut at whitespace before the lookahead, then move the cut back before
+    // any entity that crosses it
+    const results = await this.analyzer.analyze(
+      this.pending,
+      this.analyzeOptions
+    );
+    let end = this.pending.length - this.lookahead;
+    const whitespace = this.pending.substring(0, end).search(/\s\S*$/);
+    if (whitespace >= 0) end = whitespace + 1;
+    end = Math.min(end, this.openKeyBlockStart());
+
+    for (const result of [...results].reverse()) {
+      if (result.start < end && result.end > end) end = result.start;
+    }
+
+    if (end <= 0) return '';
+
+    return this.anonymize(
+      end,
+      results.filter((result) => result.end <= end)
+    );
+  }
+
+  /**
+   * Start of a private key block in the buffer whose END marker has not
+   * arrived yet, or the buffer length when there is none
+   */
+  private openKeyBlockStart(): number {
+    for (const match of this.pending.matchAll(PRIVATE_KEY_BEGIN)) {
+      const start = match.index!;
+      const endMarker = `-----END ${match[1]}-----`;
+      if (
+        !this.pending.includes(endMarker, start) &&
+        this.pending.length - start <= MAX_KEY_BLOCK_LENGTH
+      ) {
+        return start;
+      }
+    }
+    return this.pending.length;
+  }
+
+  /**
+   * Anonymize and return everything still buffered
+   */
+  async flush(chunk = ''): Promise<string> {
+    this.pending += chunk;
+    return this.pending ? this.emit(this.pending.length) : '';
+  }
+
+  /**
+   * Analyze and anonymize the first `end` characters of the buffer
+   */
+  private async emit(end: number): Promise<string> {
+    const results = await this.analyzer.analyze(
+      this.pending.substring(0, end),
+      this.analyzeOptions
+    );
+    return this.anonymize(end, results);
+  }
+
+  /**
+   * Remove the first `end` characters from the buffer and anonymize them
+   */
+  private async anonymize(
+    end: number,
+    results: RecognizerResult[]
+  ): Promise<string> {
+    const text = this.pending.substring(0, end);
+    this.pending = this.pending.substring(end);
+
+    const anonymized = await this.anonymizer.anonymizeAsync(
+      text,
+      results,
+      this.operators
+    );
+    return anonymized.text;
+  }
+}
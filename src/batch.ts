@@ -0,0 +1,56 @@
+/**
+ * Options shared by the batch APIs
+ */
+export interface BatchOptions {
+  /** Maximum number of batches processed at the same time (default 4) */
+  concurrency?: number;
+  /** Called as items complete, with the number done so far and the total */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Outcome of one item of a batch: either its result or the error it raised
+ */
+export interface BatchItemResult<T> {
+  /** Position of the item in the input */
+  index: number;
+  result?: T;
+  error?: Error;
+}
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight,
+ * returning the results in input order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+
+  return results;
+}
+
+/**
+ * Wrap a thrown value as an Error
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,373 @@
+import { parseArgs } from 'util';
+import { mkdir, readFile, readdir, stat, writeFile } from 'fs/promises';
+import { basename, dirname, join, relative } from 'path';
+import { RecognizerResult } from './types.js';
+import {
+  OperatorPolicy,
+  PolicyConfig,
+  createPolicy,
+  parsePolicy,
+} from './policy.js';
+
+/**
+ * Streams the command-line tool reads from and writes to
+ */
+export interface CliIO {
+  stdin: AsyncIterable<string | Buffer>;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+}
+
+/**
+ * A file to process, and where its output goes relative to --out-dir
+ */
+interface InputFile {
+  path: string;
+  outputPath: string;
+}
+
+const USAGE = `Usage: anonymizerts [options] [paths...]
+
+Anonymize files, or stdin when no paths are given ('-' also reads stdin).
+Without --out-dir, output is written to stdout.
+
+Options:
+  --analyze                 Print detected entities as JSON
+  --check                   Print where PII was found (without the values)
+                            and exit with status 1 if there is any
+  -e, --entities <list>     Comma-separated entity types to detect
+  -o, --operator <spec>     Operator for an entity type, as
+                            TYPE=operator[,option=value...], e.g.
+                            PERSON=replace,newValue=<NAME> or
+                            PHONE_NUMBER=mask,charsToMask=4,fromEnd=true.
+                            TYPE DEFAULT sets the fallback. Repeatable
+  --no-ner                  Use pattern recognizers only
+  --model <name>            NER model for English
+  -l, --language <code>     Language of the input (default en)
+  --score-threshold <n>     Drop results scoring below n
+  -p, --policy <file>       Load a JSON or YAML policy; flags override it
+  -r, --recursive           Process directories recursively
+  --out-dir <dir>           Write one output file per input file here
+  -h, --help                Show this help
+
+Exit status: 0 on success, 1 when --check finds PII, 2 on errors.
+`;
+
+/** Directories never entered by --recursive */
+const SKIPPED_DIRECTORIES = ['.git', 'node_modules'];
+
+const INTEGER_OPTIONS = ['charsToMask', 'hashLength'];
+const BOOLEAN_OPTIONS = ['fromEnd', 'hashPrefix'];
+
+/**
+ * Run the anonymizerts command with the given arguments (without the node
+ * and script paths) and return its exit status
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = process
+): Promise<number> {
+  try {
+    return await run(args, io);
+  } catch (error) {
+    io.stderr.write(`anonymizerts: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
+
+async function run(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      analyze: { type: 'boolean' },
+      check: { type: 'boolean' },
+      entities: { type: 'string', short: 'e' },
+      operator: { type: 'string', short: 'o', multiple: true },
+      'no-ner': { type: 'boolean' },
+      model: { type: 'string' },
+      language: { type: 'string', short: 'l' },
+      'score-threshold': { type: 'string' },
+      policy: { type: 'string', short: 'p' },
+      recursive: { type: 'boolean', short: 'r' },
+      'out-dir': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    io.stdout.write(USAGE);
+    return 0;
+  }
+  if (values.check && (values.analyze || values['out-dir'])) {
+    throw new Error('--check cannot be combined with --analyze or --out-dir');
+  }
+
+  const policy = createPolicy(
+    await buildConfig({
+      policyPath: values.policy,
+      useNER: values['no-ner'] ? false : undefined,
+      modelName: values.model,
+      language: values.language,
+      scoreThreshold: values['score-threshold'],
+      operators: values.operator ?? [],
+    })
+  );
+  if (values.entities) {
+    policy.analyzeOptions.entities = values.entities
+      .split(',')
+      .map((entity) => entity.trim())
+      .filter(Boolean);
+  }
+  if (values.language) {
+    policy.analyzeOptions.language = values.language;
+  }
+
+  const outDir = values['out-dir'];
+  const paths = positionals.length > 0 ? positionals : ['-'];
+
+  // Collect every file first, so that clashing outputs fail before the
+  // model loads or any file is written
+  const inputs: Array<InputFile | null> = [];
+  const outputs = new Map<string, string>();
+  for (const path of paths) {
+    if (path === '-') {
+      inputs.push(null);
+      continue;
+    }
+
+    for (const file of await collectFiles(path, !!values.recursive)) {
+      if (!outDir && !values.check && !values.analyze && file.path !== path) {
+        throw new Error(`--out-dir is required to anonymize directory ${path}`);
+      }
+      if (outDir) {
+        const clash = outputs.get(file.outputPath);
+        if (clash !== undefined) {
+          throw new Error(
+            `${clash} and ${file.path} would both be written to ` +
+              join(outDir, file.outputPath)
+          );
+        }
+        outputs.set(file.outputPath, file.path);
+      }
+      inputs.push(file);
+    }
+  }
+
+  // Model loading messages go to stderr, as stdout carries our output
+  await policy.analyzer.initialize({
+    logger: (message) => io.stderr.write(`${message}\n`),
+  });
+
+  const reports: Array<{ file: string; results: RecognizerResult[] }> = [];
+  let found = 0;
+
+  const handle = async (
+    text: string,
+    name: string,
+    outputPath: string | null
+  ): Promise<void> => {
+    const results = await policy.analyzer.analyze(text, policy.analyzeOptions);
+    found += results.length;
+
+    if (values.check) {
+      for (const result of results) {
+        const { line, column } = position(text, result.start);
+        io.stdout.write(`${name}:${line}:${column}: ${result.entityType}\n`);
+      }
+    } else if (values.analyze && !outputPath) {
+      reports.push({ file: name, results });
+    } else if (values.analyze) {
+      await writeOutput(`${outputPath}.json`, toJson(results));
+    } else {
+      const { text: anonymized } = policy.anonymizer.anonymize(
+        text,
+        results,
+        policy.operators
+      );
+      if (outputPath) await writeOutput(outputPath, anonymized);
+      else io.stdout.write(anonymized);
+    }
+  };
+
+  for (const file of inputs) {
+    if (!file) {
+      await handle(await readStream(io.stdin), '-', null);
+    } else {
+      const buffer = await readFile(file.path);
+      if (buffer.includes(0)) {
+        io.stderr.write(`anonymizerts: skipping binary file ${file.path}\n`);
+        continue;
+      }
+      await handle(
+        buffer.toString('utf8'),
+        file.path,
+        outDir ? join(outDir, file.outputPath) : null
+      );
+    }
+  }
+
+  // Analysis of stdin alone prints its results; files print a report each
+  if (values.analyze && !outDir) {
+    io.stdout.write(
+      toJson(
+        paths.length === 1 && paths[0] === '-' ? reports[0].results : reports
+      )
+    );
+  }
+
+  return values.check && found > 0 ? 1 : 0;
+}
+
+/**
+ * Flags that map onto policy settings
+ */
+interface ConfigFlags {
+  policyPath?: string;
+  useNER?: boolean;
+  modelName?: string;
+  language?: string;
+  scoreThreshold?: string;
+  operators: string[];
+}
+
+/**
+ * Build the policy to run from the --policy file, if any, with the other
+ * flags applied on top
+ */
+async function buildConfig(flags: ConfigFlags): Promise<PolicyConfig> {
+  let config: PolicyConfig = {};
+  if (flags.policyPath) {
+    const text = await readFile(flags.policyPath, 'utf8');
+    const format = /\.ya?ml$/i.test(flags.policyPath) ? 'yaml' : undefined;
+    config = parsePolicy(text, format);
+  }
+
+  config = { ...config, operators: { ...config.operators } };
+  if (flags.useNER !== undefined) config.useNER = flags.useNER;
+  if (flags.modelName !== undefined) config.modelName = flags.modelName;
+  if (flags.language && !config.languages?.includes(flags.language)) {
+    config.languages = [...(config.languages ?? []), flags.language];
+  }
+  if (flags.scoreThreshold !== undefined) {
+    const threshold = Number(flags.scoreThreshold);
+    if (!flags.scoreThreshold.trim() || Number.isNaN(threshold)) {
+      throw new Error(
+        `--score-threshold must be a number, got '${flags.scoreThreshold}'`
+      );
+    }
+    config.scoreThreshold = threshold;
+  }
+  for (const spec of flags.operators) {
+    const [entityType, operator] = parseOperator(spec);
+    config.operators![entityType] = operator;
+  }
+
+  return config;
+}
+
+/**
+ * Parse an --operator value such as 'PHONE_NUMBER=mask,charsToMask=4'.
+ * Option values are checked when the policy is created
+ */
+function parseOperator(spec: string): [string, OperatorPolicy] {
+  const separator = spec.indexOf('=');
+  const entityType = spec.substring(0, separator).trim();
+  const [type, ...options] = spec.substring(separator + 1).split(',');
+  if (separator < 1 || !type.trim()) {
+    throw new Error(
+      `--operator must look like TYPE=operator[,option=value...], got '${spec}'`
+    );
+  }
+
+  const operator: Record<string, unknown> = { type: type.trim() };
+  for (const option of options) {
+    const equals = option.indexOf('=');
+    if (equals < 1) {
+      throw new Error(
+        `--operator option must be option=value, got '${option}'`
+      );
+    }
+
+    const key = option.substring(0, equals).trim();
+    const value = option.substring(equals + 1);
+    if (INTEGER_OPTIONS.includes(key) && /^\d+$/.test(value)) {
+      operator[key] = Number(value);
+    } else if (BOOLEAN_OPTIONS.includes(key) && /^(true|false)$/.test(value)) {
+      operator[key] = value === 'true';
+    } else {
+      operator[key] = value;
+    }
+  }
+
+  return [entityType, operator as OperatorPolicy];
+}
+
+/**
+ * List the files under a path. A file given directly is written to
+ * --out-dir under its base name; files found in a directory keep their
+ * path relative to it
+ */
+async function collectFiles(
+  path: string,
+  recursive: boolean
+): Promise<InputFile[]> {
+  if (!(await stat(path)).isDirectory()) {
+    return [{ path, outputPath: basename(path) }];
+  }
+  if (!recursive) {
+    throw new Error(`${path} is a directory (use --recursive)`);
+  }
+
+  const files: InputFile[] = [];
+  const walk = async (directory: string): Promise<void> => {
+    const entries = await readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const entryPath = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.includes(entry.name)) await walk(entryPath);
+      } else if (entry.isFile()) {
+        files.push({ path: entryPath, outputPath: relative(path, entryPath) });
+      }
+    }
+  };
+
+  await walk(path);
+  return files;
+}
+
+async function writeOutput(path: string, content: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content);
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+/**
+ * One-based line and column of an offset
+ */
+function position(
+  text: string,
+  offset: number
+): { line: number; column: number } {
+  const before = text.substring(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: offset - lineStart + 1,
+  };
+}
+
+async function readStream(
+  stream: AsyncIterable<string | Buffer>
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
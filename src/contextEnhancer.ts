@@ -0,0 +1,156 @@
+import { RecognizerResult } from './types.js';
+
+/**
+ * Options controlling context-word score enhancement
+ */
+export interface ContextEnhancerOptions {
+  /** Amount added to the score when a context word is found (default 0.35) */
+  contextSimilarityFactor?: number;
+  /** Minimum score of a result with a context word nearby (default 0.4) */
+  minScoreWithContextSimilarity?: number;
+  /** Number of words before the match searched for context (default 5) */
+  contextPrefixCount?: number;
+  /** Number of words after the match searched for context (default 2) */
+  contextSuffixCount?: number;
+}
+
+/**
+ * A lowercase word of the text and its position
+ */
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Boosts result scores when a recognizer's context words appear near the match
+ */
+export class ContextEnhancer {
+  private contextSimilarityFactor: number;
+  private minScoreWithContextSimilarity: number;
+  private contextPrefixCount: number;
+  private contextSuffixCount: number;
+  /** Words of the last text enhanced, reused for each recognizer's results */
+  private tokenized: { text: string; words: Word[] } | null = null;
+
+  constructor(options: ContextEnhancerOptions = {}) {
+    this.contextSimilarityFactor = options.contextSimilarityFactor ?? 0.35;
+    this.minScoreWithContextSimilarity =
+      options.minScoreWithContextSimilarity ?? 0.4;
+    this.contextPrefixCount = options.contextPrefixCount ?? 5;
+    this.contextSuffixCount = options.contextSuffixCount ?? 2;
+  }
+
+  /**
+   * Return the results with scores raised where context words are present
+   */
+  enhance(
+    text: string,
+    results: RecognizerResult[],
+    contextWords: string[]
+  ): RecognizerResult[] {
+    if (contextWords.length === 0 || results.length === 0) return results;
+
+    const context = new Set(contextWords.map((word) => word.toLowerCase()));
+    const words = this.tokenize(text);
+
+    return results.map((result) => {
+      const surrounding = this.surroundingWords(words, result);
+      const contextWord = surrounding.find((word) => context.has(word));
+      if (!contextWord) return result;
+
+      const score = Math.max(
+        Math.min(result.score + this.contextSimilarityFactor, 1.0),
+        this.minScoreWithContextSimilarity
+      );
+      const explanation = result.analysisExplanation;
+
+      return {
+        ...result,
+        score,
+        analysisExplanation: explanation && {
+          ...explanation,
+          scoreAdjustments: [
+            ...explanation.scoreAdjustments,
+            {
+              reason: `context word '${contextWord}'`,
+              previousScore: result.score,
+              score,
+            },
+          ],
+        },
+      };
+    });
+  }
+
+  /**
+   * Return the first context word found near a result, if any
+   */
+  findContextWord(
+    text: string,
+    result: RecognizerResult,
+    contextWords: string[]
+  ): string | undefined {
+    const context = new Set(contextWords.map((word) => word.toLowerCase()));
+    return this.surroundingWords(this.tokenize(text), result).find((word) =>
+      context.has(word)
+    );
+  }
+
+  /**
+   * Find the words within the prefix/suffix window of a result
+   */
+  private surroundingWords(words: Word[], result: RecognizerResult): string[] {
+    // Words are in text order, so both their starts and ends are sorted
+    const firstAfter = firstIndex(words, (w) => w.start >= result.end);
+    const firstOverlapping = firstIndex(words, (w) => w.end > result.start);
+
+    return [
+      ...words.slice(
+        Math.max(firstOverlapping - this.contextPrefixCount, 0),
+        firstOverlapping
+      ),
+      ...words.slice(firstAfter, firstAfter + this.contextSuffixCount),
+    ].map((w) => w.word);
+  }
+
+  /**
+   * Split text into lowercase words with their positions
+   */
+  private tokenize(text: string): Word[] {
+    if (this.tokenized?.text === text) return this.tokenized.words;
+
+    const words: Word[] = [];
+    const wordPattern = /[\p{L}\p{N}]+/gu;
+    let match;
+
+    while ((match = wordPattern.exec(text)) !== null) {
+      words.push({
+        word: match[0].toLowerCase(),
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+
+    this.tokenized = { text, words };
+    return words;
+  }
+}
+
+/**
+ * Index of the first word matching a predicate that holds for every word
+ * after it too, or words.length
+ */
+function firstIndex(words: Word[], predicate: (word: Word) => boolean): number {
+  let low = 0;
+  let high = words.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (predicate(words[middle])) high = middle;
+    else low = middle + 1;
+  }
+
+  return low;
+}
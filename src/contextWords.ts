@@ -0,0 +1,213 @@
+import { EntityType, EntityTypeName } from './types.js';
+
+/**
+ * Context words of the built-in pattern recognizers, per language. Words are
+ * lowercase and matched against whole words around each result
+ */
+export const CONTEXT_WORDS: Record<
+  string,
+  Partial<Record<EntityTypeName, string[]>>
+> = {
+  en: {
+    [EntityType.EMAIL_ADDRESS]: ['email', 'mail', 'contact'],
+    [EntityType.PHONE_NUMBER]: [
+      'phone',
+      'telephone',
+      'mobile',
+      'cell',
+      'call',
+      'tel',
+      'fax',
+      'number',
+    ],
+    [EntityType.CREDIT_CARD]: [
+      'credit',
+      'card',
+      'visa',
+      'mastercard',
+      'amex',
+      'debit',
+      'cc',
+      'payment',
+    ],
+    [EntityType.US_SSN]: ['ssn', 'ssns', 'social', 'security', 'ss'],
+    [EntityType.IP_ADDRESS]: [
+      'ip',
+      'ipv4',
+      'ipv6',
+      'address',
+      'server',
+      'host',
+    ],
+    [EntityType.URL]: ['url', 'website', 'link', 'site', 'web'],
+    [EntityType.DATE_TIME]: [
+      'date',
+      'birth',
+      'born',
+      'dob',
+      'birthday',
+      'time',
+      'dated',
+      'issued',
+      'expires',
+      'expiry',
+    ],
+    [EntityType.IBAN_CODE]: ['iban', 'bank', 'account', 'transfer', 'sepa'],
+    [EntityType.UK_NINO]: ['national', 'insurance', 'nino', 'ni'],
+    [EntityType.UK_NHS]: ['nhs', 'health', 'patient'],
+    [EntityType.EU_VAT]: ['vat', 'tax', 'registration'],
+    [EntityType.PASSPORT]: ['passport', 'passports', 'travel', 'document'],
+    [EntityType.AWS_ACCESS_KEY]: ['aws', 'access', 'key', 'id'],
+    [EntityType.API_KEY]: ['api', 'key', 'token', 'secret'],
+    [EntityType.JWT]: ['jwt', 'token', 'bearer'],
+    [EntityType.SECRET]: [
+      'secret',
+      'key',
+      'token',
+      'password',
+      'api',
+      'credential',
+      'credentials',
+    ],
+  },
+  de: {
+    [EntityType.EMAIL_ADDRESS]: ['email', 'mail', 'kontakt', 'adresse'],
+    [EntityType.PHONE_NUMBER]: [
+      'telefon',
+      'telefonnummer',
+      'tel',
+      'handy',
+      'mobil',
+      'anrufen',
+      'fax',
+      'nummer',
+    ],
+    [EntityType.CREDIT_CARD]: [
+      'kreditkarte',
+      'kreditkartennummer',
+      'karte',
+      'visa',
+      'mastercard',
+      'amex',
+      'zahlung',
+    ],
+    [EntityType.IP_ADDRESS]: [
+      'ip',
+      'ipv4',
+      'ipv6',
+      'adresse',
+      'server',
+      'host',
+    ],
+    [EntityType.URL]: ['url', 'webseite', 'website', 'link', 'seite'],
+    [EntityType.DATE_TIME]: [
+      'datum',
+      'geburtsdatum',
+      'geboren',
+      'geburtstag',
+      'zeit',
+      'uhrzeit',
+      'ausgestellt',
+      'gültig',
+    ],
+    [EntityType.IBAN_CODE]: [
+      'iban',
+      'bank',
+      'konto',
+      'kontonummer',
+      'überweisung',
+    ],
+    [EntityType.EU_VAT]: ['ust', 'ustidnr', 'umsatzsteuer', 'mwst', 'steuer'],
+    [EntityType.PASSPORT]: ['reisepass', 'pass', 'passnummer', 'ausweis'],
+  },
+  es: {
+    [EntityType.EMAIL_ADDRESS]: ['correo', 'email', 'electrónico', 'contacto'],
+    [EntityType.PHONE_NUMBER]: [
+      'teléfono',
+      'telefono',
+      'móvil',
+      'movil',
+      'celular',
+      'llamar',
+      'fax',
+      'número',
+    ],
+    [EntityType.CREDIT_CARD]: [
+      'tarjeta',
+      'crédito',
+      'credito',
+      'débito',
+      'visa',
+      'mastercard',
+      'amex',
+      'pago',
+    ],
+    [EntityType.IP_ADDRESS]: ['ip', 'ipv4', 'ipv6', 'dirección', 'servidor'],
+    [EntityType.URL]: ['url', 'sitio', 'web', 'enlace', 'página'],
+    [EntityType.DATE_TIME]: [
+      'fecha',
+      'nacimiento',
+      'nacido',
+      'nacida',
+      'cumpleaños',
+      'hora',
+      'emitido',
+      'vence',
+    ],
+    [EntityType.IBAN_CODE]: ['iban', 'banco', 'cuenta', 'transferencia'],
+    [EntityType.EU_VAT]: ['iva', 'nif', 'cif', 'fiscal'],
+    [EntityType.PASSPORT]: ['pasaporte', 'documento', 'viaje'],
+  },
+  fr: {
+    [EntityType.EMAIL_ADDRESS]: ['courriel', 'email', 'mail', 'contact'],
+    [EntityType.PHONE_NUMBER]: [
+      'téléphone',
+      'telephone',
+      'portable',
+      'mobile',
+      'appeler',
+      'tél',
+      'fax',
+      'numéro',
+    ],
+    [EntityType.CREDIT_CARD]: [
+      'carte',
+      'crédit',
+      'bancaire',
+      'visa',
+      'mastercard',
+      'amex',
+      'paiement',
+    ],
+    [EntityType.IP_ADDRESS]: ['ip', 'ipv4', 'ipv6', 'adresse', 'serveur'],
+    [EntityType.URL]: ['url', 'site', 'web', 'lien', 'page'],
+    [EntityType.DATE_TIME]: [
+      'date',
+      'naissance',
+      'né',
+      'née',
+      'anniversaire',
+      'heure',
+      'délivré',
+      'expire',
+    ],
+    [EntityType.IBAN_CODE]: ['iban', 'banque', 'compte', 'virement', 'rib'],
+    [EntityType.EU_VAT]: ['tva', 'intracommunautaire', 'fiscal', 'siren'],
+    [EntityType.PASSPORT]: ['passeport', 'document', 'voyage'],
+  },
+};
+
+/**
+ * Get the context words for an entity type in a language, falling back to
+ * English for languages without their own list
+ */
+export function getContextWords(
+  entityType: EntityTypeName,
+  language: string
+): string[] {
+  return (
+    CONTEXT_WORDS[language]?.[entityType] ??
+    CONTEXT_WORDS.en[entityType] ??
+    []
+  );
+}
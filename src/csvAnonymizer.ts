@@ -0,0 +1,284 @@
+import {
+  EntityTypeName,
+  OperatorConfig,
+  RecognizerResult,
+} from './types.js';
+import { PresidioAnalyzer, AnalyzeOptions } from './analyzer.js';
+import { PresidioAnonymizer } from './anonymizer.js';
+
+/**
+ * Options for creating a CSV anonymizer
+ */
+export interface CsvAnonymizerOptions {
+  analyzer: PresidioAnalyzer;
+  /** Anonymizer to apply (default: a new REDACT anonymizer) */
+  anonymizer?: PresidioAnonymizer;
+  analyzeOptions?: AnalyzeOptions;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  /** Field delimiter (default ',') */
+  delimiter?: string;
+  /** Whether the first row holds column names (default true) */
+  hasHeader?: boolean;
+  /** Number of rows sampled to infer each column's entity type (default 100) */
+  sampleSize?: number;
+  /**
+   * Share of non-empty sampled cells that must be a single entity of one
+   * type for the whole column to be treated as that type (default 0.8)
+   */
+  inferenceThreshold?: number;
+}
+
+/**
+ * What was detected in one column
+ */
+export interface CsvColumnReport {
+  index: number;
+  /** Header name, or the column number as a string without a header */
+  name: string;
+  /** Entity type inferred for the whole column, if any */
+  inferredEntityType?: EntityTypeName;
+  /** 'column' if every cell was anonymized as the inferred type, else 'cell' */
+  mode: 'column' | 'cell';
+  /** Number of entities anonymized, per entity type */
+  entityCounts: Record<string, number>;
+}
+
+/**
+ * Result of anonymizing a CSV document
+ */
+export interface CsvAnonymizerResult {
+  text: string;
+  report: CsvColumnReport[];
+}
+
+/**
+ * A parsed field, remembering whether it was quoted
+ */
+interface CsvField {
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * A parsed row with the line ending that followed it
+ */
+interface CsvRow {
+  fields: CsvField[];
+  ending: string;
+}
+
+/**
+ * Anonymizes CSV data column by column. A sample of each column is analyzed
+ * to infer its entity type; columns dominated by one type are anonymized
+ * without further analysis, other columns are analyzed cell by cell.
+ * Quoting, delimiters, line endings and the header are preserved
+ */
+export class CsvAnonymizer {
+  private analyzer: PresidioAnalyzer;
+  private anonymizer: PresidioAnonymizer;
+  private analyzeOptions?: AnalyzeOptions;
+  private operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  private delimiter: string;
+  private hasHeader: boolean;
+  private sampleSize: number;
+  private inferenceThreshold: number;
+
+  constructor(options: CsvAnonymizerOptions) {
+    this.analyzer = options.analyzer;
+    this.anonymizer = options.anonymizer ?? new PresidioAnonymizer();
+    this.analyzeOptions = options.analyzeOptions;
+    this.operators = options.operators;
+    this.delimiter = options.delimiter ?? ',';
+    this.hasHeader = options.hasHeader ?? true;
+    this.sampleSize = options.sampleSize ?? 100;
+    this.inferenceThreshold = options.inferenceThreshold ?? 0.8;
+
+    if (this.delimiter.length !== 1 || /["\r\n]/.test(this.delimiter)) {
+      throw new Error(
+        'delimiter must be a single character other than a quote or newline'
+      );
+    }
+  }
+
+  /**
+   * Anonymize a CSV document
+   */
+  async anonymize(csv: string): Promise<CsvAnonymizerResult> {
+    const rows = this.parse(csv);
+    const header = this.hasHeader ? rows[0] : undefined;
+    const dataRows = this.hasHeader ? rows.slice(1) : rows;
+    const columnCount = rows.reduce(
+      (count, row) => Math.max(count, row.fields.length),
+      0
+    );
+    const report: CsvColumnReport[] = [];
+
+    for (let column = 0; column < columnCount; column++) {
+      const inferredEntityType = await this.inferColumnType(dataRows, column);
+      const columnReport: CsvColumnReport = {
+        index: column,
+        name: header?.fields[column]?.value ?? String(column),
+        inferredEntityType,
+        mode: inferredEntityType ? 'column' : 'cell',
+        entityCounts: {},
+      };
+
+      for (const row of dataRows) {
+        const field = row.fields[column];
+        if (!field || !field.value.trim()) continue;
+
+        const results = inferredEntityType
+          ? [this.wholeCellResult(field.value, inferredEntityType)]
+          : await this.analyzer.analyze(field.value, this.analyzeOptions);
+        if (results.length === 0) continue;
+
+        const anonymized = await this.anonymizer.anonymizeAsync(
+          field.value,
+          results,
+          this.operators
+        );
+        field.value = anonymized.text;
+
+        for (const item of anonymized.items) {
+          columnReport.entityCounts[item.entityType] =
+            (columnReport.entityCounts[item.entityType] ?? 0) + 1;
+        }
+      }
+
+      report.push(columnReport);
+    }
+
+    return { text: this.format(rows), report };
+  }
+
+  /**
+   * Return the entity type covering at least inferenceThreshold of the
+   * non-empty sampled cells of a column, if there is one
+   */
+  private async inferColumnType(
+    rows: CsvRow[],
+    column: number
+  ): Promise<EntityTypeName | undefined> {
+    const cells = rows
+      .slice(0, this.sampleSize)
+      .map((row) => row.fields[column]?.value ?? '')
+      .filter((value) => value.trim());
+    if (cells.length === 0) return undefined;
+
+    const counts = new Map<EntityTypeName, number>();
+    for (const cell of cells) {
+      const results = await this.analyzer.analyze(cell, this.analyzeOptions);
+      const entityType = this.wholeCellEntity(cell, results);
+      if (entityType) {
+        counts.set(entityType, (counts.get(entityType) ?? 0) + 1);
+      }
+    }
+
+    for (const [entityType, count] of counts) {
+      if (count / cells.length >= this.inferenceThreshold) return entityType;
+    }
+    return undefined;
+  }
+
+  /**
+   * The entity type of a result spanning the whole cell, ignoring
+   * surrounding whitespace
+   */
+  private wholeCellEntity(
+    cell: string,
+    results: RecognizerResult[]
+  ): EntityTypeName | undefined {
+    const { start, end } = this.wholeCellResult(cell, '');
+
+    return results.find((r) => r.start <= start && r.end >= end)?.entityType;
+  }
+
+  /**
+   * A result covering the cell without its surrounding whitespace
+   */
+  private wholeCellResult(
+    cell: string,
+    entityType: EntityTypeName
+  ): RecognizerResult {
+    const start = cell.length - cell.trimStart().length;
+    const end = cell.trimEnd().length;
+
+    return {
+      entityType,
+      start,
+      end,
+      score: 1.0,
+      text: cell.substring(start, end),
+    };
+  }
+
+  /**
+   * Split CSV text into rows of fields (RFC 4180 quoting)
+   */
+  private parse(text: string): CsvRow[] {
+    const rows: CsvRow[] = [];
+    let fields: CsvField[] = [];
+    let field: CsvField = { value: '', quoted: false };
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (char === '"' && field.value === '' && !field.quoted) {
+        // Quoted field: read up to the closing quote, unescaping ""
+        field.quoted = true;
+        i++;
+        while (i < text.length) {
+          if (text[i] === '"') {
+            if (text[i + 1] !== '"') break;
+            i++;
+          }
+          field.value += text[i++];
+        }
+        i++;
+      } else if (char === this.delimiter) {
+        fields.push(field);
+        field = { value: '', quoted: false };
+        i++;
+      } else if (char === '\r' || char === '\n') {
+        const ending = text.startsWith('\r\n', i) ? '\r\n' : char;
+        fields.push(field);
+        rows.push({ fields, ending });
+        fields = [];
+        field = { value: '', quoted: false };
+        i += ending.length;
+      } else {
+        field.value += char;
+        i++;
+      }
+    }
+
+    // A final row without a line ending
+    if (fields.length > 0 || field.value !== '' || field.quoted) {
+      fields.push(field);
+      rows.push({ fields, ending: '' });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Write rows back as CSV, quoting fields that were quoted or now need it
+   */
+  private format(rows: CsvRow[]): string {
+    return rows
+      .map(
+        ({ fields, ending }) =>
+          fields
+            .map(({ value, quoted }) =>
+              quoted ||
+              value.includes(this.delimiter) ||
+              /["\r\n]/.test(value)
+                ? `"${value.replace(/"/g, '""')}"`
+                : value
+            )
+            .join(this.delimiter) + ending
+      )
+      .join('');
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  OperatorType,
+  OperatorConfig,
+  AnonymizerResult,
+  EntityTypeName,
+} from './types.js';
+import { AESCipher } from './aesCipher.js';
+import { EntityVault } from './entityVault.js';
+
+/**
+ * Deanonymizer that restores values produced by reversible operators
+ */
+export class PresidioDeanonymizer {
+  private defaultOperator?: OperatorConfig;
+
+  constructor(defaultOperator?: OperatorConfig) {
+    this.defaultOperator = defaultOperator;
+  }
+
+  /**
+   * Restore original values in anonymized text, given the items returned by
+   * PresidioAnonymizer.anonymize. The default operator only applies to
+   * encrypted items; items without an operator are left as is
+   */
+  deanonymize(
+    text: string,
+    items: AnonymizerResult['items'],
+    operators?: Map<EntityTypeName, OperatorConfig>
+  ): AnonymizerResult {
+    let deanonymizedText = '';
+    let cursor = 0;
+    const restoredItems: AnonymizerResult['items'] = [];
+
+    const sortedItems = [...items].sort((a, b) => a.start - b.start);
+
+    for (const item of sortedItems) {
+      const { start, end } = item;
+      if (start < cursor || text.substring(start, end) !== item.text) {
+        throw new Error(
+          `Anonymized value for ${item.entityType} not found at ${start}-${end}`
+        );
+      }
+
+      const operator =
+        operators?.get(item.entityType) ||
+        (item.operator === OperatorType.ENCRYPT
+          ? this.defaultOperator
+          : undefined);
+      const restored = operator
+        ? this.applyOperator(item.text, operator)
+        : item.text;
+
+      deanonymizedText += text.substring(cursor, start);
+      restoredItems.push({
+        start: deanonymizedText.length,
+        end: deanonymizedText.length + restored.length,
+        originalStart: start,
+        originalEnd: end,
+        entityType: item.entityType,
+        text: restored,
+        operator: operator?.type ?? item.operator,
+      });
+      deanonymizedText += restored;
+      cursor = end;
+    }
+
+    deanonymizedText += text.substring(cursor);
+
+    return {
+      text: deanonymizedText,
+      items: restoredItems,
+    };
+  }
+
+  /**
+   * Replace every vault placeholder found in arbitrary text (such as an LLM
+   * reply to pseudonymized input) with its original value
+   */
+  restore(text: string, vault: EntityVault): string {
+    return text.replace(
+      /<[^<>\s]+_\d+>/g,
+      (placeholder) => vault.getValue(placeholder) ?? placeholder
+    );
+  }
+
+  /**
+   * Apply a reversing operator to an anonymized value
+   */
+  private applyOperator(value: string, operator: OperatorConfig): string {
+    switch (operator.type) {
+      case OperatorType.DECRYPT:
+        return AESCipher.decrypt(operator.key ?? '', value);
+
+      default:
+        throw new Error(
+          `Operator '${operator.type}' cannot be used to deanonymize`
+        );
+    }
+  }
+}
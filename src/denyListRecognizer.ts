@@ -0,0 +1,150 @@
+import {
+  EntityRecognizer,
+  EntityTypeName,
+  RecognizerResult,
+} from './types.js';
+
+/**
+ * Options for creating a deny-list recognizer
+ */
+export interface DenyListRecognizerOptions {
+  /** Unique name (default 'DenyListRecognizer:<supportedEntity>') */
+  name?: string;
+  /** Entity type reported for every listed term */
+  supportedEntity: EntityTypeName;
+  /** Terms to flag, such as project codenames */
+  denyList: string[];
+  /** Language this recognizer applies to (default 'en') */
+  supportedLanguage?: string;
+  /** Score given to matches (default 1.0) */
+  score?: number;
+  /** Match terms with the same letter case only (default false) */
+  caseSensitive?: boolean;
+  context?: string[];
+}
+
+/**
+ * A node of the term trie, keyed by character
+ */
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Set when a term ends at this node */
+  isTerm: boolean;
+}
+
+/**
+ * Flags every occurrence of a listed term as one entity type. Terms are
+ * stored in a trie, so matching costs the same for a list of thousands as
+ * for a handful. Only whole words match, and where terms overlap the
+ * longest one starting first wins (e.g. 'Project Falcon' over 'Falcon')
+ */
+export class DenyListRecognizer implements EntityRecognizer {
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  readonly context: string[];
+  private score: number;
+  private caseSensitive: boolean;
+  private root: TrieNode = { children: new Map(), isTerm: false };
+
+  constructor(options: DenyListRecognizerOptions) {
+    this.name =
+      options.name ?? `DenyListRecognizer:${options.supportedEntity}`;
+    this.supportedEntities = [options.supportedEntity];
+    this.supportedLanguage = options.supportedLanguage ?? 'en';
+    this.context = options.context ?? [];
+    this.score = options.score ?? 1.0;
+    this.caseSensitive = options.caseSensitive ?? false;
+
+    for (const term of options.denyList) {
+      this.addTerm(term);
+    }
+  }
+
+  /**
+   * Add a term to the list
+   */
+  addTerm(term: string): void {
+    if (!term.trim()) return;
+
+    let node = this.root;
+    for (const char of term.trim()) {
+      const key = this.fold(char);
+      let child = node.children.get(key);
+      if (!child) {
+        child = { children: new Map(), isTerm: false };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    node.isTerm = true;
+  }
+
+  recognize(text: string): RecognizerResult[] {
+    const results: RecognizerResult[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      const end = this.isWordEdge(text, start, start - 1)
+        ? this.longestTermAt(text, start)
+        : -1;
+
+      if (end < 0) {
+        start++;
+        continue;
+      }
+
+      results.push({
+        entityType: this.supportedEntities[0],
+        start,
+        end,
+        score: this.score,
+        text: text.substring(start, end),
+      });
+      start = end;
+    }
+
+    return results;
+  }
+
+  /**
+   * End of the longest term that starts at `start` and ends on a word
+   * boundary, or -1
+   */
+  private longestTermAt(text: string, start: number): number {
+    let node: TrieNode | undefined = this.root;
+    let end = -1;
+    let i = start;
+
+    while (i < text.length) {
+      const char = String.fromCodePoint(text.codePointAt(i)!);
+      node = node.children.get(this.fold(char));
+      if (!node) break;
+
+      i += char.length;
+      if (node.isTerm && this.isWordEdge(text, i - 1, i)) end = i;
+    }
+
+    return end;
+  }
+
+  /**
+   * Whether a term edge between `inner` (its first or last character) and
+   * `outer` (the character beside it) is a word boundary. Edges of terms
+   * that begin or end with punctuation always count as boundaries
+   */
+  private isWordEdge(text: string, inner: number, outer: number): boolean {
+    return (
+      !DenyListRecognizer.isWordChar(text[inner]) ||
+      !DenyListRecognizer.isWordChar(text[outer])
+    );
+  }
+
+  private fold(char: string): string {
+    return this.caseSensitive ? char : char.toLowerCase();
+  }
+
+  private static isWordChar(char: string | undefined): boolean {
+    return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+  }
+}
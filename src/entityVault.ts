@@ -0,0 +1,90 @@
+import { EntityTypeName } from './types.js';
+
+/**
+ * A value stored in an entity vault together with its placeholder
+ */
+export interface VaultEntry {
+  entityType: EntityTypeName;
+  value: string;
+  placeholder: string;
+}
+
+/**
+ * Serialized form of a vault
+ */
+export interface VaultData {
+  entries: VaultEntry[];
+}
+
+/**
+ * Storage for the value/placeholder pairs used by the PSEUDONYMIZE operator
+ */
+export interface EntityVault {
+  /** Return the placeholder for a value, creating a new one if needed */
+  getPlaceholder(entityType: EntityTypeName, value: string): string;
+  /** Look up the original value of a placeholder */
+  getValue(placeholder: string): string | undefined;
+  toJSON(): VaultData;
+}
+
+/**
+ * Entity vault kept in memory. Placeholders are numbered per entity type in
+ * order of first appearance: <PERSON_1>, <PERSON_2>, <EMAIL_ADDRESS_1>...
+ */
+export class InMemoryEntityVault implements EntityVault {
+  private placeholders = new Map<string, string>();
+  private values = new Map<string, VaultEntry>();
+  private counters = new Map<EntityTypeName, number>();
+
+  constructor(data?: VaultData) {
+    for (const entry of data?.entries ?? []) {
+      this.store(entry);
+    }
+  }
+
+  /**
+   * Create a vault from the output of toJSON(), as an object or JSON string
+   */
+  static fromJSON(data: VaultData | string): InMemoryEntityVault {
+    return new InMemoryEntityVault(
+      typeof data === 'string' ? JSON.parse(data) : data
+    );
+  }
+
+  getPlaceholder(entityType: EntityTypeName, value: string): string {
+    const existing = this.placeholders.get(this.valueKey(entityType, value));
+    if (existing) return existing;
+
+    const count = (this.counters.get(entityType) ?? 0) + 1;
+    const placeholder = `<${entityType}_${count}>`;
+    this.store({ entityType, value, placeholder });
+
+    return placeholder;
+  }
+
+  getValue(placeholder: string): string | undefined {
+    return this.values.get(placeholder)?.value;
+  }
+
+  toJSON(): VaultData {
+    return { entries: [...this.values.values()] };
+  }
+
+  private store(entry: VaultEntry): void {
+    this.placeholders.set(
+      this.valueKey(entry.entityType, entry.value),
+      entry.placeholder
+    );
+    this.values.set(entry.placeholder, entry);
+
+    // Keep numbering past any restored placeholder of this type
+    const number = Number(/_(\d+)>$/.exec(entry.placeholder)?.[1] ?? 0);
+    if (number > (this.counters.get(entry.entityType) ?? 0)) {
+      this.counters.set(entry.entityType, number);
+    }
+  }
+
+  private valueKey(entityType: EntityTypeName, value: string): string {
+    return `${entityType}\u0000${value}`;
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  EntityRecognizer,
+  EntityType,
+  EntityTypeName,
+  RecognizerResult,
+} from './types.js';
+import { getContextWords } from './contextWords.js';
+
+/**
+ * Options for creating an entropy recognizer
+ */
+export interface EntropyRecognizerOptions {
+  language?: string;
+  /** Minimum length of a candidate string (default 20) */
+  minLength?: number;
+  /** Minimum entropy of base64-like strings, in bits per char (default 4.5) */
+  base64Threshold?: number;
+  /**
+   * Minimum entropy of hexadecimal strings, in bits per char. Hexadecimal
+   * strings are not reported unless this is set, since git SHAs, checksums
+   * and UUIDs are hexadecimal too
+   */
+  hexThreshold?: number;
+  /** Score given to matches (default 0.5) */
+  score?: number;
+}
+
+/**
+ * Detects random-looking strings such as keys and tokens without a known
+ * format, by their Shannon entropy. Candidates are runs of base64 or
+ * hexadecimal characters containing both letters and digits; '=' only ends
+ * a candidate as padding, so in 'token=...' just the value is a candidate
+ */
+export class EntropyRecognizer implements EntityRecognizer {
+  readonly name = 'EntropyRecognizer';
+  readonly supportedEntities: EntityTypeName[] = [EntityType.SECRET];
+  readonly supportedLanguage: string;
+  readonly context: string[];
+  private minLength: number;
+  private base64Threshold: number;
+  private hexThreshold: number | undefined;
+  private score: number;
+
+  constructor(options: EntropyRecognizerOptions = {}) {
+    this.supportedLanguage = options.language ?? 'en';
+    this.context = getContextWords(EntityType.SECRET, this.supportedLanguage);
+    this.minLength = options.minLength ?? 20;
+    this.base64Threshold = options.base64Threshold ?? 4.5;
+    this.hexThreshold = options.hexThreshold;
+    this.score = options.score ?? 0.5;
+
+    if (!Number.isInteger(this.minLength) || this.minLength < 1) {
+      throw new Error('minLength must be a positive integer');
+    }
+  }
+
+  /**
+   * Shannon entropy of a string, in bits per character
+   */
+  static shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / text.length;
+      entropy -= p * Math.log2(p);
+    }
+    return entropy;
+  }
+
+  recognize(text: string): RecognizerResult[] {
+    const results: RecognizerResult[] = [];
+    const candidate = /[A-Za-z0-9+/_-]+={0,2}/g;
+    let match;
+
+    while ((match = candidate.exec(text)) !== null) {
+      const value = match[0];
+      if (value.length < this.minLength) continue;
+      if (!/\d/.test(value) || !/[A-Za-z]/.test(value)) continue;
+
+      const threshold = /^[0-9A-Fa-f]+$/.test(value)
+        ? this.hexThreshold
+        : this.base64Threshold;
+      if (threshold === undefined) continue;
+      if (EntropyRecognizer.shannonEntropy(value) < threshold) continue;
+
+      results.push({
+        entityType: EntityType.SECRET,
+        start: match.index,
+        end: match.index + value.length,
+        score: this.score,
+        text: value,
+      });
+    }
+
+    return results;
+  }
+}
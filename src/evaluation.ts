@@ -0,0 +1,467 @@
+import { readFile } from 'fs/promises';
+import { EntityTypeName, RecognizerResult } from './types.js';
+import { AnalyzeOptions, PresidioAnalyzer } from './analyzer.js';
+
+/**
+ * A labeled entity in an evaluation example
+ */
+export interface GoldSpan {
+  entityType: EntityTypeName;
+  start: number;
+  end: number;
+}
+
+/**
+ * A text with the entities it contains
+ */
+export interface EvaluationExample {
+  id?: string;
+  text: string;
+  /** Language passed to the analyzer (default: the analyzer's default) */
+  language?: string;
+  spans: GoldSpan[];
+}
+
+/**
+ * Options for evaluate
+ */
+export interface EvaluationOptions {
+  /** Options passed to every analyze call */
+  analyzeOptions?: AnalyzeOptions;
+  /** Only score these entity types; other gold spans and results are ignored */
+  entities?: EntityTypeName[];
+  /**
+   * Renames gold entity types before scoring, for datasets labeled with
+   * other names (e.g. { PER: 'PERSON', EMAIL: 'EMAIL_ADDRESS' })
+   */
+  labelMap?: Record<string, EntityTypeName>;
+}
+
+/**
+ * Counts and scores of one entity type, or of all types together
+ */
+export interface EntityMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * A gold span that was missed, or a result that matches no gold span
+ */
+export interface EvaluationMismatch {
+  /** Index of the example in the dataset */
+  example: number;
+  id?: string;
+  entityType: EntityTypeName;
+  start: number;
+  end: number;
+  text: string;
+  /** Score of the analyzer result, for false positives */
+  score?: number;
+}
+
+/**
+ * Scores under one matching rule
+ */
+export interface EvaluationScores {
+  /** Per entity type, covering every type in the gold spans or results */
+  entities: Record<string, EntityMetrics>;
+  /** Micro-averaged over all entity types */
+  overall: EntityMetrics;
+  falsePositives: EvaluationMismatch[];
+  falseNegatives: EvaluationMismatch[];
+}
+
+/**
+ * Result of evaluating an analyzer on a labeled dataset
+ */
+export interface EvaluationReport {
+  examples: number;
+  /** A result counts only when its type, start and end equal a gold span's */
+  exact: EvaluationScores;
+  /** A result counts when it has the type of a gold span and overlaps it */
+  partial: EvaluationScores;
+  /**
+   * Counts of gold type (rows) against the type of the overlapping result
+   * (columns). Row 'O' holds results matching no gold span and column 'O'
+   * the gold spans no result overlaps
+   */
+  confusionMatrix: Record<string, Record<string, number>>;
+}
+
+/** Label of the confusion matrix row and column for "no entity" */
+const OUTSIDE = 'O';
+
+/**
+ * Parse a JSONL dataset: one example per line, as in
+ * {"id": "1", "text": "Mail jane@example.com", "spans": [{"entityType":
+ * "EMAIL_ADDRESS", "start": 5, "end": 21}]}. A span may carry its text,
+ * which must equal the text at its offsets. Blank lines are skipped
+ */
+export function parseEvaluationDataset(text: string): EvaluationExample[] {
+  const examples: EvaluationExample[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw datasetError(i + 1, (error as Error).message);
+    }
+    examples.push(checkExample(value, i + 1));
+  });
+
+  return examples;
+}
+
+/**
+ * Read a JSONL dataset file
+ */
+export async function loadEvaluationDataset(
+  path: string
+): Promise<EvaluationExample[]> {
+  return parseEvaluationDataset(await readFile(path, 'utf8'));
+}
+
+/**
+ * Run the analyzer on every example and score its results against the gold
+ * spans
+ */
+export async function evaluate(
+  analyzer: PresidioAnalyzer,
+  examples: EvaluationExample[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const exact = new ScoreCounter();
+  const partial = new ScoreCounter();
+  const confusionMatrix: Record<string, Record<string, number>> = {};
+  const count = (gold: string, predicted: string) => {
+    confusionMatrix[gold] ??= {};
+    confusionMatrix[gold][predicted] =
+      (confusionMatrix[gold][predicted] ?? 0) + 1;
+  };
+
+  const included = (entityType: EntityTypeName) =>
+    !options.entities || options.entities.includes(entityType);
+
+  for (const [index, example] of examples.entries()) {
+    const gold = example.spans
+      .map((span) => ({
+        ...span,
+        entityType: options.labelMap?.[span.entityType] ?? span.entityType,
+      }))
+      .filter((span) => included(span.entityType));
+    const predicted = (
+      await analyzer.analyze(example.text, {
+        ...options.analyzeOptions,
+        language: example.language ?? options.analyzeOptions?.language,
+      })
+    ).filter((result) => included(result.entityType));
+
+    const context = { example: index, id: example.id, text: example.text };
+    exact.add(gold, predicted, context, sameSpan);
+    partial.add(gold, predicted, context, sameTypeOverlap);
+
+    const aligned = matchSpans(gold, predicted, (g, p) => overlap(g, p) > 0);
+    for (const [g, p] of aligned.pairs) count(g.entityType, p.entityType);
+    for (const g of aligned.unmatchedGold) count(g.entityType, OUTSIDE);
+    for (const p of aligned.unmatchedPredicted) count(OUTSIDE, p.entityType);
+  }
+
+  return {
+    examples: examples.length,
+    exact: exact.scores(),
+    partial: partial.scores(),
+    confusionMatrix,
+  };
+}
+
+/**
+ * Format a report as plain-text tables: per-entity scores for both matching
+ * rules, then the confusion matrix
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const rows: string[][] = [
+    ['Entity', 'Matching', 'TP', 'FP', 'FN', 'Precision', 'Recall', 'F1'],
+  ];
+
+  const entityTypes = Object.keys(report.exact.entities).sort();
+  for (const entityType of [...entityTypes, 'Overall']) {
+    for (const matching of ['exact', 'partial'] as const) {
+      const scores = report[matching];
+      const metrics =
+        entityType === 'Overall'
+          ? scores.overall
+          : scores.entities[entityType];
+      rows.push([
+        entityType,
+        matching,
+        String(metrics.truePositives),
+        String(metrics.falsePositives),
+        String(metrics.falseNegatives),
+        percent(metrics.precision),
+        percent(metrics.recall),
+        percent(metrics.f1),
+      ]);
+    }
+  }
+
+  const labels = [
+    ...new Set([
+      ...Object.keys(report.confusionMatrix),
+      ...Object.values(report.confusionMatrix).flatMap(Object.keys),
+    ]),
+  ]
+    .filter((label) => label !== OUTSIDE)
+    .sort()
+    .concat(OUTSIDE);
+  const matrix = [
+    ['Gold \\ Predicted', ...labels],
+    ...labels.map((gold) => [
+      gold,
+      ...labels.map((predicted) =>
+        String(report.confusionMatrix[gold]?.[predicted] ?? 0)
+      ),
+    ]),
+  ];
+
+  return (
+    `Examples: ${report.examples}\n\n` +
+    `${formatTable(rows)}\n\nConfusion matrix:\n${formatTable(matrix)}\n`
+  );
+}
+
+/**
+ * Tallies true and false positives per entity type under one matching rule
+ */
+class ScoreCounter {
+  private counts = new Map<EntityTypeName, [number, number, number]>();
+  private falsePositives: EvaluationMismatch[] = [];
+  private falseNegatives: EvaluationMismatch[] = [];
+
+  add(
+    gold: GoldSpan[],
+    predicted: RecognizerResult[],
+    context: { example: number; id?: string; text: string },
+    matches: (gold: GoldSpan, predicted: RecognizerResult) => boolean
+  ): void {
+    const { pairs, unmatchedGold, unmatchedPredicted } = matchSpans(
+      gold,
+      predicted,
+      matches
+    );
+    const mismatch = (span: GoldSpan): EvaluationMismatch => ({
+      example: context.example,
+      ...(context.id !== undefined && { id: context.id }),
+      entityType: span.entityType,
+      start: span.start,
+      end: span.end,
+      text: context.text.substring(span.start, span.end),
+    });
+
+    for (const [span] of pairs) this.tally(span.entityType, 0);
+    for (const result of unmatchedPredicted) {
+      this.tally(result.entityType, 1);
+      this.falsePositives.push({ ...mismatch(result), score: result.score });
+    }
+    for (const span of unmatchedGold) {
+      this.tally(span.entityType, 2);
+      this.falseNegatives.push(mismatch(span));
+    }
+  }
+
+  scores(): EvaluationScores {
+    const entities: Record<string, EntityMetrics> = {};
+    const total: [number, number, number] = [0, 0, 0];
+
+    for (const entityType of [...this.counts.keys()].sort()) {
+      const counts = this.counts.get(entityType)!;
+      entities[entityType] = metrics(counts);
+      counts.forEach((value, i) => (total[i] += value));
+    }
+
+    return {
+      entities,
+      overall: metrics(total),
+      falsePositives: this.falsePositives,
+      falseNegatives: this.falseNegatives,
+    };
+  }
+
+  /**
+   * Count a true positive (0), false positive (1) or false negative (2)
+   */
+  private tally(entityType: EntityTypeName, kind: 0 | 1 | 2): void {
+    const counts = this.counts.get(entityType) ?? [0, 0, 0];
+    counts[kind]++;
+    this.counts.set(entityType, counts);
+  }
+}
+
+function metrics([tp, fp, fn]: [number, number, number]): EntityMetrics {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  return {
+    truePositives: tp,
+    falsePositives: fp,
+    falseNegatives: fn,
+    precision,
+    recall,
+    f1:
+      precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : 0,
+  };
+}
+
+/**
+ * Pair gold spans with results one-to-one, taking candidate pairs with the
+ * largest overlap first
+ */
+function matchSpans(
+  gold: GoldSpan[],
+  predicted: RecognizerResult[],
+  matches: (gold: GoldSpan, predicted: RecognizerResult) => boolean
+): {
+  pairs: Array<[GoldSpan, RecognizerResult]>;
+  unmatchedGold: GoldSpan[];
+  unmatchedPredicted: RecognizerResult[];
+} {
+  const candidates: Array<[number, number, number]> = [];
+  gold.forEach((g, i) =>
+    predicted.forEach((p, j) => {
+      if (matches(g, p)) candidates.push([i, j, overlap(g, p)]);
+    })
+  );
+  candidates.sort((a, b) => b[2] - a[2]);
+
+  const usedGold = new Set<number>();
+  const usedPredicted = new Set<number>();
+  const pairs: Array<[GoldSpan, RecognizerResult]> = [];
+  for (const [i, j] of candidates) {
+    if (usedGold.has(i) || usedPredicted.has(j)) continue;
+    usedGold.add(i);
+    usedPredicted.add(j);
+    pairs.push([gold[i], predicted[j]]);
+  }
+
+  return {
+    pairs,
+    unmatchedGold: gold.filter((_, i) => !usedGold.has(i)),
+    unmatchedPredicted: predicted.filter((_, j) => !usedPredicted.has(j)),
+  };
+}
+
+function overlap(a: GoldSpan, b: GoldSpan): number {
+  return Math.min(a.end, b.end) - Math.max(a.start, b.start);
+}
+
+function sameSpan(gold: GoldSpan, predicted: RecognizerResult): boolean {
+  return (
+    gold.entityType === predicted.entityType &&
+    gold.start === predicted.start &&
+    gold.end === predicted.end
+  );
+}
+
+function sameTypeOverlap(
+  gold: GoldSpan,
+  predicted: RecognizerResult
+): boolean {
+  return (
+    gold.entityType === predicted.entityType && overlap(gold, predicted) > 0
+  );
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+        )
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+function datasetError(line: number, message: string): Error {
+  return new Error(`Invalid dataset at line ${line}: ${message}`);
+}
+
+function checkExample(value: unknown, line: number): EvaluationExample {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw datasetError(line, 'expected a JSON object');
+  }
+
+  const { id, text, language, spans } = value as Record<string, unknown>;
+  if (typeof text !== 'string') {
+    throw datasetError(line, 'text must be a string');
+  }
+  if (id !== undefined && typeof id !== 'string' && typeof id !== 'number') {
+    throw datasetError(line, 'id must be a string or number');
+  }
+  if (language !== undefined && typeof language !== 'string') {
+    throw datasetError(line, 'language must be a string');
+  }
+  if (!Array.isArray(spans)) {
+    throw datasetError(line, 'spans must be an array');
+  }
+
+  return {
+    ...(id !== undefined && { id: String(id) }),
+    text,
+    ...(language !== undefined && { language }),
+    spans: spans.map((span, i) => checkSpan(span, text, `spans[${i}]`, line)),
+  };
+}
+
+function checkSpan(
+  value: unknown,
+  text: string,
+  path: string,
+  line: number
+): GoldSpan {
+  if (typeof value !== 'object' || value === null) {
+    throw datasetError(line, `${path} must be an object`);
+  }
+
+  const span = value as Record<string, unknown>;
+  const { entityType, start, end } = span;
+  if (typeof entityType !== 'string' || !entityType) {
+    throw datasetError(line, `${path}.entityType must be a string`);
+  }
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(end) ||
+    (start as number) < 0 ||
+    (start as number) >= (end as number) ||
+    (end as number) > text.length
+  ) {
+    throw datasetError(
+      line,
+      `${path}: start and end must satisfy 0 <= start < end <= text length`
+    );
+  }
+  const spanText = text.substring(start as number, end as number);
+  if (span.text !== undefined && span.text !== spanText) {
+    throw datasetError(
+      line,
+      `${path}.text is '${span.text}' but the text at ${start}-${end} is ` +
+        `'${spanText}'`
+    );
+  }
+
+  return { entityType, start: start as number, end: end as number };
+}
@@ -12,7 +12,7 @@ async function main() {
   const text = `
 John Smith lives in New York and works at Microsoft Corporation.
 His email is john.smith@email.com and phone number is (555) 123-4567.
-His SSN is 123-45-6789 and credit card is 4532-1234-5678-9010.
+His SSN is 123-45-6789 and credit card is 4532-0151-1283-0366.
 He can be reached at https://johnsmith.com or IP address 192.168.1.1.
 Jane Doe from Los Angeles works at Google and her email is jane@example.org.
   `.trim();
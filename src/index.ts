@@ -3,14 +3,105 @@
  * using transformers.js for PII detection and anonymization
  */
 
-export { PresidioAnalyzer } from './analyzer.js';
+export {
+  PresidioAnalyzer,
+  AnalyzerOptions,
+  AnalyzeOptions,
+  AnalyzeBatchOptions,
+} from './analyzer.js';
+export { BatchOptions, BatchItemResult } from './batch.js';
+export { ContextEnhancer, ContextEnhancerOptions } from './contextEnhancer.js';
 export { PresidioAnonymizer } from './anonymizer.js';
-export { NERRecognizer } from './nerRecognizer.js';
-export { PatternRecognizer } from './patternRecognizer.js';
+export {
+  AnonymizerStream,
+  AnonymizerStreamOptions,
+} from './anonymizerStream.js';
+export {
+  StructuredAnonymizer,
+  StructuredAnonymizerOptions,
+  StructuredAnonymizerResult,
+  FieldConfig,
+} from './structuredAnonymizer.js';
+export {
+  CsvAnonymizer,
+  CsvAnonymizerOptions,
+  CsvAnonymizerResult,
+  CsvColumnReport,
+} from './csvAnonymizer.js';
+export {
+  Policy,
+  PolicyConfig,
+  RecognizerPolicy,
+  PatternPolicy,
+  OperatorPolicy,
+  parsePolicy,
+  validatePolicy,
+  createPolicy,
+  loadPolicyFile,
+} from './policy.js';
+export {
+  GoldSpan,
+  EvaluationExample,
+  EvaluationOptions,
+  EntityMetrics,
+  EvaluationMismatch,
+  EvaluationScores,
+  EvaluationReport,
+  parseEvaluationDataset,
+  loadEvaluationDataset,
+  evaluate,
+  formatEvaluationReport,
+} from './evaluation.js';
+export { PresidioDeanonymizer } from './deanonymizer.js';
+export { OffsetMapping } from './offsetMapping.js';
+export { AESCipher } from './aesCipher.js';
+export { SurrogateGenerator } from './surrogate.js';
+export {
+  EntityVault,
+  InMemoryEntityVault,
+  VaultEntry,
+  VaultData,
+} from './entityVault.js';
+export { NERRecognizer, NERRecognizerOptions } from './nerRecognizer.js';
+export {
+  PatternRecognizer,
+  Pattern,
+  PatternRecognizerOptions,
+} from './patternRecognizer.js';
+export {
+  EntropyRecognizer,
+  EntropyRecognizerOptions,
+} from './entropyRecognizer.js';
+export {
+  DenyListRecognizer,
+  DenyListRecognizerOptions,
+} from './denyListRecognizer.js';
+export { RecognizerRegistry } from './recognizerRegistry.js';
+export {
+  ValidationResult,
+  luhnChecksum,
+  validateCreditCard,
+  validateUsSsn,
+  validateIPv4,
+  validateIPv6,
+  validateIsoDate,
+  validateNumericDate,
+  validateWrittenDate,
+  validateIban,
+  validateUkNino,
+  validateUkNhs,
+  validateEuVat,
+  validatePhoneNumber,
+  validateJwt,
+} from './validators.js';
 export {
   EntityType,
+  EntityTypeName,
   OperatorType,
   RecognizerResult,
   OperatorConfig,
+  OperatorContext,
   AnonymizerResult,
+  EntityRecognizer,
+  InitializeOptions,
 } from './types.js';
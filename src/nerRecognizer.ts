@@ -1,25 +1,78 @@
 import { pipeline } from '@huggingface/transformers';
-import { EntityType, RecognizerResult } from './types.js';
+import {
+  EntityRecognizer,
+  EntityType,
+  EntityTypeName,
+  InitializeOptions,
+  RecognizerResult,
+} from './types.js';
 
 /**
- * NER-based recognizer using transformers.js
+ * Options for creating an NER recognizer
  */
-export class NERRecognizer {
+export interface NERRecognizerOptions {
+  /** Hugging Face model id (default 'Xenova/bert-base-NER') */
+  modelName?: string;
+  /** Language of the texts the model handles (default 'en') */
+  language?: string;
+  /** Maximum characters passed to the model in one call (default 1000) */
+  windowSize?: number;
+  /** Characters shared by consecutive windows (default 200) */
+  windowOverlap?: number;
+  /**
+   * Most tokens the model reads at once, including special tokens (default
+   * 512). Windows with more tokens are split again, since the pipeline
+   * truncates its input to this length
+   */
+  maxTokens?: number;
+}
+
+/**
+ * NER-based recognizer using transformers.js. Long texts are split into
+ * overlapping windows so that nothing falls past the model's token limit
+ */
+export class NERRecognizer implements EntityRecognizer {
+  readonly name = 'NERRecognizer';
+  readonly supportedEntities: EntityTypeName[] = [
+    EntityType.PERSON,
+    EntityType.LOCATION,
+    EntityType.ORGANIZATION,
+    EntityType.DATE_TIME,
+  ];
+  readonly supportedLanguage: string;
   private nerPipeline: any = null;
   private modelName: string;
+  private windowSize: number;
+  private windowOverlap: number;
+  private maxTokens: number;
+
+  constructor(options: string | NERRecognizerOptions = {}) {
+    const { modelName, language, windowSize, windowOverlap, maxTokens } =
+      typeof options === 'string' ? { modelName: options } : options;
 
-  constructor(modelName: string = 'Xenova/bert-base-NER') {
-    this.modelName = modelName;
+    this.modelName = modelName ?? 'Xenova/bert-base-NER';
+    this.supportedLanguage = language ?? 'en';
+    this.windowSize = windowSize ?? 1000;
+    this.windowOverlap = windowOverlap ?? 200;
+    this.maxTokens = maxTokens ?? 512;
+
+    if (this.windowOverlap < 0 || this.windowOverlap >= this.windowSize) {
+      throw new Error('windowOverlap must be between 0 and windowSize');
+    }
+    if (!Number.isInteger(this.maxTokens) || this.maxTokens < 1) {
+      throw new Error('maxTokens must be a positive integer');
+    }
   }
 
   /**
-   * Initialize the NER pipeline
+   * Initialize the NER pipeline, reporting progress to the logger
    */
-  async initialize(): Promise<void> {
+  async initialize(options: InitializeOptions = {}): Promise<void> {
+    const log = options.logger ?? console.log;
     if (!this.nerPipeline) {
-      console.log('Loading NER model...');
+      log('Loading NER model...');
       this.nerPipeline = await pipeline('token-classification', this.modelName);
-      console.log('NER model loaded successfully');
+      log('NER model loaded successfully');
     }
   }
 
@@ -34,21 +87,150 @@ export class NERRecognizer {
       LOCATION: EntityType.LOCATION,
       ORG: EntityType.ORGANIZATION,
       ORGANIZATION: EntityType.ORGANIZATION,
+      DATE: EntityType.DATE_TIME,
+      TIME: EntityType.DATE_TIME,
+      DATE_TIME: EntityType.DATE_TIME,
     };
 
     const normalized = nerType.replace(/^[BI]-/, '');
     return typeMap[normalized] || null;
   }
 
+  /**
+   * Split text into windows of at most windowSize characters, ending on a
+   * sentence boundary where possible, otherwise on whitespace. Consecutive
+   * windows share up to windowOverlap characters, starting on a word
+   */
+  static splitIntoWindows(
+    text: string,
+    windowSize: number,
+    windowOverlap: number
+  ): Array<{ start: number; end: number }> {
+    const windows: Array<{ start: number; end: number }> = [];
+    let start = 0;
+
+    while (text.length - start > windowSize) {
+      const end = NERRecognizer.findWindowEnd(
+        text,
+        start + windowOverlap + 1,
+        start + windowSize
+      );
+      windows.push({ start, end });
+
+      // Back up by the overlap, then forward to the start of a word
+      let next = Math.max(end - windowOverlap, start + 1);
+      while (next < end && !/\s/.test(text[next - 1])) {
+        next++;
+      }
+      start = next;
+    }
+
+    windows.push({ start, end: text.length });
+    return windows;
+  }
+
+  /**
+   * Find the last sentence or whitespace boundary in [minEnd, maxEnd],
+   * falling back to maxEnd
+   */
+  private static findWindowEnd(
+    text: string,
+    minEnd: number,
+    maxEnd: number
+  ): number {
+    const range = text.substring(minEnd, maxEnd);
+
+    for (const boundary of [/[.!?]+["')\]]*\s+|\n\s*/g, /\s+/g]) {
+      let last = -1;
+      let match;
+      while ((match = boundary.exec(range)) !== null) {
+        last = match.index + match[0].length;
+      }
+      if (last > 0) return minEnd + last;
+    }
+
+    return maxEnd;
+  }
+
   /**
    * Recognize entities using NER model
    */
   async recognize(text: string): Promise<RecognizerResult[]> {
+    const [results] = await this.recognizeBatch([text]);
+    return results;
+  }
+
+  /**
+   * Recognize entities in several texts, passing all of their windows to the
+   * model in a single pipeline call
+   */
+  async recognizeBatch(texts: string[]): Promise<RecognizerResult[][]> {
     if (!this.nerPipeline) {
       await this.initialize();
     }
 
-    const nerResults = await this.nerPipeline(text);
+    const windows = texts.flatMap((text, index) =>
+      NERRecognizer.splitIntoWindows(text, this.windowSize, this.windowOverlap)
+        .flatMap((window) => this.fitTokenLimit(text, window))
+        .map((window) => ({ ...window, index }))
+    );
+    const windowTexts = windows.map((window) =>
+      texts[window.index].substring(window.start, window.end)
+    );
+    const nerResults = windowTexts.length
+      ? await this.nerPipeline(windowTexts)
+      : [];
+    const results: RecognizerResult[][] = texts.map(() => []);
+
+    windows.forEach((window, i) => {
+      for (const result of this.mergeTokens(windowTexts[i], nerResults[i])) {
+        results[window.index].push({
+          ...result,
+          start: result.start + window.start,
+          end: result.end + window.start,
+        });
+      }
+    });
+
+    return results.map((textResults) =>
+      this.removeWindowDuplicates(textResults)
+    );
+  }
+
+  /**
+   * Split a window in halves until each part has at most maxTokens tokens.
+   * Characters are only a proxy for tokens: digits, punctuation and CJK text
+   * take far more tokens per character than English words
+   */
+  private fitTokenLimit(
+    text: string,
+    window: { start: number; end: number }
+  ): Array<{ start: number; end: number }> {
+    const tokenizer = this.nerPipeline.tokenizer;
+    const windowText = text.substring(window.start, window.end);
+    if (
+      !tokenizer ||
+      windowText.length < 2 ||
+      tokenizer.encode(windowText).length <= this.maxTokens
+    ) {
+      return [window];
+    }
+
+    const size = Math.ceil(windowText.length / 2);
+    const overlap = Math.min(this.windowOverlap, Math.floor(size / 4));
+    return NERRecognizer.splitIntoWindows(windowText, size, overlap).flatMap(
+      (part) =>
+        this.fitTokenLimit(text, {
+          start: window.start + part.start,
+          end: window.start + part.end,
+        })
+    );
+  }
+
+  /**
+   * Merge consecutive tokens of the same entity type into results
+   */
+  private mergeTokens(text: string, nerResults: any): RecognizerResult[] {
     const results: RecognizerResult[] = [];
     
     if (!Array.isArray(nerResults) || nerResults.length === 0) {
@@ -57,14 +239,15 @@ export class NERRecognizer {
 
     // Merge consecutive tokens of the same entity type
     let currentEntity: RecognizerResult | null = null;
+    const offsets = NERRecognizer.locateTokens(text, nerResults);
 
-    for (const result of nerResults) {
+    nerResults.forEach((result: any, i: number) => {
       const entityType = this.mapEntityType(result.entity);
-      
-      if (!entityType) continue;
+      const offset = offsets[i];
 
-      const start = result.start || 0;
-      const end = result.end || start + (result.word?.length || 0);
+      if (!entityType || !offset) return;
+
+      const { start, end } = offset;
 
       if (
         currentEntity &&
@@ -75,6 +258,7 @@ export class NERRecognizer {
         currentEntity.end = end;
         currentEntity.text = text.substring(currentEntity.start, currentEntity.end);
         currentEntity.score = Math.max(currentEntity.score, result.score);
+        currentEntity.analysisExplanation!.originalScore = currentEntity.score;
       } else {
         // Save previous entity if exists
         if (currentEntity) {
@@ -88,9 +272,16 @@ export class NERRecognizer {
           end,
           score: result.score,
           text: text.substring(start, end),
+          analysisExplanation: {
+            recognizer: this.name,
+            nerLabel: result.entity,
+            originalScore: result.score,
+            scoreAdjustments: [],
+            supersededResults: [],
+          },
         };
       }
-    }
+    });
 
     // Add the last entity
     if (currentEntity) {
@@ -99,4 +290,92 @@ export class NERRecognizer {
 
     return results;
   }
+
+  /**
+   * Find the character span of each token in the text the model was given.
+   * The pipeline reports only the token's word, so each word (without its
+   * '##' subword prefix) is searched for from the end of the previous one.
+   * Only entity tokens are reported, so a word must also sit on word
+   * boundaries: it starts a word unless it is a subword, and ends one unless
+   * a subword follows. Tokens that cannot be found, such as [UNK], get no span
+   */
+  static locateTokens(
+    text: string,
+    tokens: Array<{ word?: string }>
+  ): Array<{ start: number; end: number } | null> {
+    // Uncased models report lowercase words
+    const haystack = text.toLowerCase();
+    let cursor = 0;
+
+    return tokens.map((token, i) => {
+      const isSubword = (token.word ?? '').startsWith('##');
+      const word = (token.word ?? '').replace(/^##/, '').toLowerCase();
+      if (!word) return null;
+
+      const endsWord = !(tokens[i + 1]?.word ?? '').startsWith('##');
+      let start = haystack.indexOf(word, cursor);
+      while (start >= 0) {
+        const end = start + word.length;
+        const splitsBefore =
+          isWordChar(haystack[start - 1]) && isWordChar(word[0]);
+        const splitsAfter =
+          isWordChar(haystack[end]) && isWordChar(word[word.length - 1]);
+        if ((isSubword || !splitsBefore) && (!endsWord || !splitsAfter)) break;
+        start = haystack.indexOf(word, start + 1);
+      }
+      if (start < 0) return null;
+
+      cursor = start + word.length;
+      return { start, end: cursor };
+    });
+  }
+
+  /**
+   * Drop entities found twice in overlapping windows. Where spans of the same
+   * type overlap, the longer one (cut off least by a window edge) is kept
+   */
+  private removeWindowDuplicates(
+    results: RecognizerResult[]
+  ): RecognizerResult[] {
+    const sorted = [...results].sort(
+      (a, b) => a.start - b.start || b.end - a.end
+    );
+    const kept: RecognizerResult[] = [];
+
+    for (const result of sorted) {
+      const index = kept.findIndex(
+        (existing) =>
+          existing.entityType === result.entityType &&
+          result.start < existing.end &&
+          result.end > existing.start
+      );
+
+      if (index < 0) {
+        kept.push(result);
+        continue;
+      }
+
+      const existing = kept[index];
+      const resultLength = result.end - result.start;
+      const existingLength = existing.end - existing.start;
+      if (
+        resultLength > existingLength ||
+        (resultLength === existingLength && result.score > existing.score)
+      ) {
+        kept[index] = result;
+      }
+    }
+
+    return kept;
+  }
+}
+
+/**
+ * Whether a character belongs to a word the tokenizer keeps whole. BERT
+ * tokenizers split CJK ideographs into a word each
+ */
+function isWordChar(char: string | undefined): boolean {
+  return (
+    !!char && /[\p{L}\p{N}\p{M}]/u.test(char) && !/\p{Script=Han}/u.test(char)
+  );
 }
@@ -0,0 +1,81 @@
+import { AnonymizerResult } from './types.js';
+
+/**
+ * Converts positions between an original text and its anonymized version,
+ * using the items of an AnonymizerResult
+ */
+export class OffsetMapping {
+  private items: AnonymizerResult['items'];
+
+  constructor(items: AnonymizerResult['items']) {
+    this.items = [...items].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Create a mapping for an anonymization result
+   */
+  static fromResult(result: AnonymizerResult): OffsetMapping {
+    return new OffsetMapping(result.items);
+  }
+
+  /**
+   * Convert a position in the anonymized text to the original text. A
+   * position inside a replacement maps to the start of the original entity,
+   * or to its end when bias is 'end'
+   */
+  toOriginal(position: number, bias: 'start' | 'end' = 'start'): number {
+    let delta = 0;
+
+    for (const item of this.items) {
+      if (position < item.end) {
+        if (position > item.start) {
+          return bias === 'start' ? item.originalStart : item.originalEnd;
+        }
+        break;
+      }
+      delta = item.originalEnd - item.end;
+    }
+
+    return position + delta;
+  }
+
+  /**
+   * Convert a position in the original text to the anonymized text. A
+   * position inside a replaced entity maps to the start of its replacement,
+   * or to its end when bias is 'end'
+   */
+  toAnonymized(position: number, bias: 'start' | 'end' = 'start'): number {
+    let delta = 0;
+
+    for (const item of this.items) {
+      if (position < item.originalEnd) {
+        if (position > item.originalStart) {
+          return bias === 'start' ? item.start : item.end;
+        }
+        break;
+      }
+      delta = item.end - item.originalEnd;
+    }
+
+    return position + delta;
+  }
+
+  /**
+   * Convert a span of the anonymized text to the smallest original span
+   * covering it
+   */
+  toOriginalSpan(start: number, end: number): { start: number; end: number } {
+    return { start: this.toOriginal(start), end: this.toOriginal(end, 'end') };
+  }
+
+  /**
+   * Convert a span of the original text to the smallest anonymized span
+   * covering it
+   */
+  toAnonymizedSpan(start: number, end: number): { start: number; end: number } {
+    return {
+      start: this.toAnonymized(start),
+      end: this.toAnonymized(end, 'end'),
+    };
+  }
+}
@@ -0,0 +1,593 @@
+import { readFile } from 'fs/promises';
+import {
+  EntityRecognizer,
+  EntityTypeName,
+  OperatorConfig,
+  OperatorType,
+} from './types.js';
+import { PresidioAnalyzer, AnalyzeOptions } from './analyzer.js';
+import { PresidioAnonymizer } from './anonymizer.js';
+import { RecognizerRegistry } from './recognizerRegistry.js';
+import { PatternRecognizer } from './patternRecognizer.js';
+import { DenyListRecognizer } from './denyListRecognizer.js';
+import { AESCipher } from './aesCipher.js';
+import {
+  ValidationResult,
+  luhnChecksum,
+  validateCreditCard,
+  validateUsSsn,
+  validateIPv4,
+  validateIPv6,
+  validateIsoDate,
+  validateNumericDate,
+  validateWrittenDate,
+  validateIban,
+  validateUkNino,
+  validateUkNhs,
+  validateEuVat,
+  validatePhoneNumber,
+  validateJwt,
+} from './validators.js';
+import { parseYaml } from './yaml.js';
+
+/**
+ * Validators that policy patterns can refer to by name
+ */
+const VALIDATORS: Record<string, (text: string) => ValidationResult> = {
+  luhn: (text) => luhnChecksum(text.replace(/\D/g, '')),
+  credit_card: validateCreditCard,
+  us_ssn: validateUsSsn,
+  ipv4: validateIPv4,
+  ipv6: validateIPv6,
+  iso_date: validateIsoDate,
+  numeric_date: validateNumericDate,
+  written_date: validateWrittenDate,
+  iban: validateIban,
+  uk_nino: validateUkNino,
+  uk_nhs: validateUkNhs,
+  eu_vat: validateEuVat,
+  phone_number: validatePhoneNumber,
+  jwt: validateJwt,
+};
+
+/**
+ * A regex pattern of a policy recognizer
+ */
+export interface PatternPolicy {
+  name: string;
+  /** Regular expression source, e.g. '\\bEMP-\\d{5}\\b' */
+  regex: string;
+  /** Regular expression flags such as 'i' */
+  flags?: string;
+  score: number;
+  /** Name of a built-in validator, e.g. 'luhn' or 'iban' */
+  validate?: string;
+}
+
+/**
+ * A custom recognizer: either regex patterns or a deny list
+ */
+export interface RecognizerPolicy {
+  name: string;
+  entityType: EntityTypeName;
+  /** Language the recognizer runs for (default 'en') */
+  language?: string;
+  context?: string[];
+  patterns?: PatternPolicy[];
+  denyList?: string[];
+  /** For deny lists: only match terms with the same letter case */
+  caseSensitive?: boolean;
+  /** For deny lists: score of every match (default 1.0) */
+  score?: number;
+}
+
+/**
+ * An operator as written in a policy. CUSTOM operators and vaults need code
+ * and cannot be configured from a file
+ */
+export type OperatorPolicy = Omit<
+  OperatorConfig,
+  'type' | 'vault' | 'customFunction'
+> & {
+  type: Exclude<`${OperatorType}`, 'custom'>;
+};
+
+/**
+ * Declarative analyzer and anonymizer configuration, as loaded from a JSON
+ * or YAML policy file
+ */
+export interface PolicyConfig {
+  /** Languages to register built-in recognizers for (default ['en']) */
+  languages?: string[];
+  defaultLanguage?: string;
+  /** Register the NER recognizer (default true) */
+  useNER?: boolean;
+  modelName?: string;
+  nerModels?: Record<string, string>;
+  /** Names of the built-in recognizers to keep (default: all) */
+  builtins?: string[];
+  /** Results scoring below this are dropped (default 0) */
+  scoreThreshold?: number;
+  /** Strings, or { regex, flags } objects, that are never reported */
+  allowList?: Array<string | { regex: string; flags?: string }>;
+  allowListIgnoreCase?: boolean;
+  recognizers?: RecognizerPolicy[];
+  /**
+   * Operator, or chain of operators, per entity type. The DEFAULT key sets
+   * the operator for entity types without their own
+   */
+  operators?: Record<string, OperatorPolicy | OperatorPolicy[]>;
+}
+
+/**
+ * An analyzer and anonymizer configured from a policy, with the options to
+ * pass them. The fields match the options of StructuredAnonymizer,
+ * CsvAnonymizer and AnonymizerStream
+ */
+export interface Policy {
+  analyzer: PresidioAnalyzer;
+  anonymizer: PresidioAnonymizer;
+  analyzeOptions: AnalyzeOptions;
+  operators: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+}
+
+const POLICY_KEYS = [
+  'languages',
+  'defaultLanguage',
+  'useNER',
+  'modelName',
+  'nerModels',
+  'builtins',
+  'scoreThreshold',
+  'allowList',
+  'allowListIgnoreCase',
+  'recognizers',
+  'operators',
+];
+const RECOGNIZER_KEYS = [
+  'name',
+  'entityType',
+  'language',
+  'context',
+  'patterns',
+  'denyList',
+  'caseSensitive',
+  'score',
+];
+const PATTERN_KEYS = ['name', 'regex', 'flags', 'score', 'validate'];
+const OPERATOR_KEYS = [
+  'type',
+  'newValue',
+  'maskingChar',
+  'charsToMask',
+  'fromEnd',
+  'hashType',
+  'hashKey',
+  'salt',
+  'hashLength',
+  'hashEncoding',
+  'hashPrefix',
+  'key',
+  'seed',
+];
+const OPERATOR_TYPES: string[] = Object.values(OperatorType).filter(
+  (type) => type !== OperatorType.CUSTOM && type !== OperatorType.DECRYPT
+);
+
+/** Operator types accepted in a deanonymizer map */
+export const DEANONYMIZE_OPERATOR_TYPES: string[] = [OperatorType.DECRYPT];
+
+/**
+ * Parse a JSON or YAML policy document and validate it. The format is
+ * detected from the first character unless given
+ */
+export function parsePolicy(
+  text: string,
+  format?: 'json' | 'yaml'
+): PolicyConfig {
+  const detected = format ?? (/^\s*[{[]/.test(text) ? 'json' : 'yaml');
+  let value: unknown;
+
+  if (detected === 'json') {
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON policy: ${(error as Error).message}`);
+    }
+  } else {
+    value = parseYaml(text);
+  }
+
+  return validatePolicy(value);
+}
+
+/**
+ * Check that a value is a valid policy, throwing an error that lists every
+ * problem with its location (e.g. 'recognizers[0].patterns[1].score')
+ */
+export function validatePolicy(value: unknown): PolicyConfig {
+  const errors: string[] = [];
+  const check = new PolicyChecker(errors);
+
+  if (check.object(value, 'policy', POLICY_KEYS)) {
+    check.stringArray(value.languages, 'languages');
+    check.string(value.defaultLanguage, 'defaultLanguage');
+    check.boolean(value.useNER, 'useNER');
+    check.string(value.modelName, 'modelName');
+    if (check.object(value.nerModels, 'nerModels')) {
+      for (const [language, model] of Object.entries(value.nerModels)) {
+        check.string(model, `nerModels.${language}`, true);
+      }
+    }
+    if (check.stringArray(value.builtins, 'builtins')) {
+      const known = builtinRecognizerNames();
+      (value.builtins as string[]).forEach((name, i) => {
+        if (!known.includes(name)) {
+          errors.push(
+            `builtins[${i}]: unknown built-in recognizer '${name}' ` +
+              `(expected one of ${known.join(', ')})`
+          );
+        }
+      });
+    }
+    check.score(value.scoreThreshold, 'scoreThreshold');
+    if (check.array(value.allowList, 'allowList')) {
+      value.allowList.forEach((entry, i) => {
+        if (typeof entry !== 'string') {
+          check.regex(entry, `allowList[${i}]`);
+        }
+      });
+    }
+    check.boolean(value.allowListIgnoreCase, 'allowListIgnoreCase');
+    if (check.array(value.recognizers, 'recognizers')) {
+      value.recognizers.forEach((recognizer, i) =>
+        check.recognizer(recognizer, `recognizers[${i}]`)
+      );
+    }
+    errors.push(...checkOperators(value.operators, 'operators'));
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid policy:\n${errors.map((error) => `  - ${error}`).join('\n')}`
+    );
+  }
+
+  return value as PolicyConfig;
+}
+
+/**
+ * Check an operator map keyed by entity type (and DEFAULT), as found under
+ * a policy's operators, returning a message for every problem. Anonymize
+ * operator types are accepted unless other types are given
+ */
+export function checkOperators(
+  value: unknown,
+  path: string,
+  types: string[] = OPERATOR_TYPES
+): string[] {
+  const errors: string[] = [];
+  const check = new PolicyChecker(errors);
+
+  if (check.object(value, path)) {
+    for (const [entityType, operator] of Object.entries(value)) {
+      const operatorPath = `${path}.${entityType}`;
+      if (Array.isArray(operator)) {
+        if (entityType === 'DEFAULT') {
+          errors.push(`${operatorPath}: must be a single operator, not a list`);
+        }
+        operator.forEach((item, i) =>
+          check.operator(item, `${operatorPath}[${i}]`, types)
+        );
+      } else {
+        check.operator(operator, operatorPath, types);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Create the analyzer, anonymizer and options described by a policy
+ */
+export function createPolicy(config: PolicyConfig): Policy {
+  validatePolicy(config);
+
+  const registry = new RecognizerRegistry();
+  registry.loadPredefinedRecognizers({
+    useNER: config.useNER,
+    modelName: config.modelName,
+    languages: config.languages,
+    nerModels: config.nerModels,
+  });
+
+  if (config.builtins) {
+    for (const recognizer of registry.getRecognizers()) {
+      if (!config.builtins.includes(recognizer.name)) {
+        registry.remove(recognizer.name);
+      }
+    }
+  }
+
+  for (const recognizer of config.recognizers ?? []) {
+    registry.add(createRecognizer(recognizer));
+  }
+
+  const analyzer = new PresidioAnalyzer({
+    registry,
+    languages: config.languages,
+    defaultLanguage: config.defaultLanguage,
+    defaultScoreThreshold: config.scoreThreshold,
+  });
+
+  const operators = new Map<
+    EntityTypeName,
+    OperatorConfig | OperatorConfig[]
+  >();
+  let defaultOperator: OperatorConfig | undefined;
+  for (const [entityType, operator] of Object.entries(config.operators ?? {})) {
+    if (entityType === 'DEFAULT') {
+      defaultOperator = operator as OperatorConfig;
+    } else {
+      operators.set(entityType, operator as OperatorConfig | OperatorConfig[]);
+    }
+  }
+
+  const analyzeOptions: AnalyzeOptions = {};
+  if (config.allowList) {
+    analyzeOptions.allowList = config.allowList.map((entry) =>
+      typeof entry === 'string' ? entry : new RegExp(entry.regex, entry.flags)
+    );
+  }
+  if (config.allowListIgnoreCase !== undefined) {
+    analyzeOptions.allowListIgnoreCase = config.allowListIgnoreCase;
+  }
+
+  return {
+    analyzer,
+    anonymizer: new PresidioAnonymizer(defaultOperator),
+    analyzeOptions,
+    operators,
+  };
+}
+
+/**
+ * Read a policy file (.json, .yaml or .yml) and create what it describes
+ */
+export async function loadPolicyFile(path: string): Promise<Policy> {
+  const text = await readFile(path, 'utf8');
+  const format = /\.ya?ml$/i.test(path)
+    ? 'yaml'
+    : /\.json$/i.test(path)
+      ? 'json'
+      : undefined;
+
+  return createPolicy(parsePolicy(text, format));
+}
+
+function createRecognizer(policy: RecognizerPolicy): EntityRecognizer {
+  if (policy.denyList) {
+    return new DenyListRecognizer({
+      name: policy.name,
+      supportedEntity: policy.entityType,
+      supportedLanguage: policy.language,
+      denyList: policy.denyList,
+      caseSensitive: policy.caseSensitive,
+      score: policy.score,
+      context: policy.context,
+    });
+  }
+
+  return new PatternRecognizer({
+    name: policy.name,
+    supportedEntity: policy.entityType,
+    supportedLanguage: policy.language,
+    context: policy.context,
+    patterns: (policy.patterns ?? []).map((pattern) => ({
+      name: pattern.name,
+      regex: new RegExp(pattern.regex, pattern.flags),
+      score: pattern.score,
+      validate: pattern.validate ? VALIDATORS[pattern.validate] : undefined,
+    })),
+  });
+}
+
+/**
+ * Names of the recognizers registered by loadPredefinedRecognizers
+ */
+function builtinRecognizerNames(): string[] {
+  return [
+    ...PatternRecognizer.createDefaultRecognizers('en').map((r) => r.name),
+    'EntropyRecognizer',
+    'NERRecognizer',
+  ];
+}
+
+/**
+ * Type checks that record a message for every invalid value. Undefined
+ * values pass unless required
+ */
+class PolicyChecker {
+  constructor(private errors: string[]) {}
+
+  object(
+    value: unknown,
+    path: string,
+    allowedKeys?: string[]
+  ): value is Record<string, unknown> {
+    if (value === undefined) return false;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.errors.push(`${path}: must be an object`);
+      return false;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (allowedKeys && !allowedKeys.includes(key)) {
+        this.errors.push(`${path}: unknown property '${key}'`);
+      }
+    }
+    return true;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (value === undefined) return false;
+    if (!Array.isArray(value)) {
+      this.errors.push(`${path}: must be a list`);
+      return false;
+    }
+    return true;
+  }
+
+  string(value: unknown, path: string, required = false): boolean {
+    if (value === undefined && !required) return false;
+    if (typeof value !== 'string' || value === '') {
+      this.errors.push(`${path}: must be a non-empty string`);
+      return false;
+    }
+    return true;
+  }
+
+  stringArray(value: unknown, path: string): boolean {
+    if (!this.array(value, path)) return false;
+
+    const valid = value.every((item) => typeof item === 'string' && item);
+    if (!valid) this.errors.push(`${path}: must be a list of strings`);
+    return valid;
+  }
+
+  boolean(value: unknown, path: string): void {
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.errors.push(`${path}: must be true or false`);
+    }
+  }
+
+  score(value: unknown, path: string, required = false): void {
+    if (value === undefined && !required) return;
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      this.errors.push(`${path}: must be a number between 0 and 1`);
+    }
+  }
+
+  regex(value: unknown, path: string): void {
+    if (!this.object(value, path, ['regex', 'flags'])) return;
+    if (!this.string(value.regex, `${path}.regex`, true)) return;
+    if (value.flags !== undefined && typeof value.flags !== 'string') {
+      this.errors.push(`${path}.flags: must be a string`);
+      return;
+    }
+
+    try {
+      new RegExp(value.regex as string, value.flags as string | undefined);
+    } catch (error) {
+      this.errors.push(`${path}.regex: ${(error as Error).message}`);
+    }
+  }
+
+  recognizer(value: unknown, path: string): void {
+    if (!this.object(value, path, RECOGNIZER_KEYS)) return;
+
+    this.string(value.name, `${path}.name`, true);
+    this.string(value.entityType, `${path}.entityType`, true);
+    this.string(value.language, `${path}.language`);
+    this.stringArray(value.context, `${path}.context`);
+
+    if ((value.patterns === undefined) === (value.denyList === undefined)) {
+      this.errors.push(`${path}: must have either patterns or denyList`);
+    }
+    if (this.array(value.patterns, `${path}.patterns`)) {
+      if (value.patterns.length === 0) {
+        this.errors.push(`${path}.patterns: must not be empty`);
+      }
+      value.patterns.forEach((pattern, i) =>
+        this.pattern(pattern, `${path}.patterns[${i}]`)
+      );
+      for (const key of ['caseSensitive', 'score']) {
+        if (value[key] !== undefined) {
+          this.errors.push(`${path}.${key}: only applies to deny lists`);
+        }
+      }
+    }
+    this.stringArray(value.denyList, `${path}.denyList`);
+    this.boolean(value.caseSensitive, `${path}.caseSensitive`);
+    this.score(value.score, `${path}.score`);
+  }
+
+  pattern(value: unknown, path: string): void {
+    if (!this.object(value, path, PATTERN_KEYS)) return;
+
+    this.string(value.name, `${path}.name`, true);
+    this.score(value.score, `${path}.score`, true);
+    this.regex({ regex: value.regex, flags: value.flags }, path);
+    if (
+      value.validate !== undefined &&
+      !Object.keys(VALIDATORS).includes(value.validate as string)
+    ) {
+      this.errors.push(
+        `${path}.validate: unknown validator '${value.validate}' ` +
+          `(expected one of ${Object.keys(VALIDATORS).join(', ')})`
+      );
+    }
+  }
+
+  operator(
+    value: unknown,
+    path: string,
+    types: string[] = OPERATOR_TYPES
+  ): void {
+    if (!this.object(value, path, OPERATOR_KEYS)) return;
+
+    if (!types.includes(value.type as string)) {
+      this.errors.push(`${path}.type: must be one of ${types.join(', ')}`);
+    }
+    for (const key of ['maskingChar', 'hashType', 'key']) {
+      this.string(value[key], `${path}.${key}`);
+    }
+    // Checked now, as the cipher would only reject the key at the first match
+    const usesKey =
+      value.type === OperatorType.ENCRYPT ||
+      value.type === OperatorType.DECRYPT;
+    if (
+      usesKey &&
+      (value.key === undefined ||
+        (typeof value.key === 'string' &&
+          value.key !== '' &&
+          !AESCipher.isValidKey(value.key)))
+    ) {
+      this.errors.push(`${path}.key: must be a 16, 24 or 32 byte AES key`);
+    }
+    for (const key of ['newValue', 'hashKey', 'salt']) {
+      if (value[key] !== undefined && typeof value[key] !== 'string') {
+        this.errors.push(`${path}.${key}: must be a string`);
+      }
+    }
+    const { charsToMask, hashLength } = value;
+    if (
+      charsToMask !== undefined &&
+      (!Number.isInteger(charsToMask) || (charsToMask as number) < 0)
+    ) {
+      this.errors.push(`${path}.charsToMask: must be a non-negative integer`);
+    }
+    if (
+      hashLength !== undefined &&
+      (!Number.isInteger(hashLength) || (hashLength as number) < 1)
+    ) {
+      this.errors.push(`${path}.hashLength: must be a positive integer`);
+    }
+    this.boolean(value.fromEnd, `${path}.fromEnd`);
+    this.boolean(value.hashPrefix, `${path}.hashPrefix`);
+    if (
+      value.hashEncoding !== undefined &&
+      !['hex', 'base64url'].includes(value.hashEncoding as string)
+    ) {
+      this.errors.push(`${path}.hashEncoding: must be 'hex' or 'base64url'`);
+    }
+    if (
+      value.seed !== undefined &&
+      typeof value.seed !== 'string' &&
+      typeof value.seed !== 'number'
+    ) {
+      this.errors.push(`${path}.seed: must be a string or number`);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { EntityRecognizer, EntityTypeName } from './types.js';
+import { NERRecognizer } from './nerRecognizer.js';
+import { EntropyRecognizer } from './entropyRecognizer.js';
+import { PatternRecognizer } from './patternRecognizer.js';
+
+/**
+ * Holds the recognizers used by the analyzer
+ */
+export class RecognizerRegistry {
+  private recognizers: EntityRecognizer[] = [];
+
+  constructor(recognizers: EntityRecognizer[] = []) {
+    for (const recognizer of recognizers) {
+      this.add(recognizer);
+    }
+  }
+
+  /**
+   * Register the built-in pattern and entropy recognizers and, optionally, an
+   * NER recognizer for each language. English uses modelName unless nerModels
+   * names one; other languages only get NER if nerModels names a model
+   */
+  loadPredefinedRecognizers(
+    options: {
+      useNER?: boolean;
+      modelName?: string;
+      languages?: string[];
+      nerModels?: Record<string, string>;
+    } = {}
+  ): void {
+    for (const language of options.languages ?? ['en']) {
+      for (const recognizer of PatternRecognizer.createDefaultRecognizers(
+        language
+      )) {
+        this.add(recognizer);
+      }
+      this.add(new EntropyRecognizer({ language }));
+
+      const modelName =
+        options.nerModels?.[language] ??
+        (language === 'en' ? options.modelName : undefined);
+      if ((options.useNER ?? true) && (modelName || language === 'en')) {
+        this.add(new NERRecognizer({ modelName, language }));
+      }
+    }
+  }
+
+  /**
+   * Add a recognizer, replacing any registered recognizer with the same name
+   * and language
+   */
+  add(recognizer: EntityRecognizer): void {
+    const index = this.recognizers.findIndex(
+      (r) =>
+        r.name === recognizer.name &&
+        r.supportedLanguage === recognizer.supportedLanguage
+    );
+
+    if (index >= 0) {
+      this.recognizers[index] = recognizer;
+    } else {
+      this.recognizers.push(recognizer);
+    }
+  }
+
+  /**
+   * Remove a recognizer by name, in every language unless one is given.
+   * Returns false if no such recognizer exists
+   */
+  remove(name: string, language?: string): boolean {
+    const remaining = this.recognizers.filter(
+      (r) =>
+        r.name !== name ||
+        (language !== undefined && r.supportedLanguage !== language)
+    );
+    if (remaining.length === this.recognizers.length) return false;
+
+    this.recognizers = remaining;
+    return true;
+  }
+
+  /**
+   * Get a recognizer by name, optionally for a specific language
+   */
+  get(name: string, language?: string): EntityRecognizer | undefined {
+    return this.recognizers.find(
+      (r) =>
+        r.name === name &&
+        (language === undefined || r.supportedLanguage === language)
+    );
+  }
+
+  /**
+   * Get registered recognizers, optionally only those supporting the given
+   * entities and language
+   */
+  getRecognizers(
+    entities?: EntityTypeName[],
+    language?: string
+  ): EntityRecognizer[] {
+    return this.recognizers.filter(
+      (r) =>
+        (!entities ||
+          r.supportedEntities.some((entity) => entities.includes(entity))) &&
+        (language === undefined || r.supportedLanguage === language)
+    );
+  }
+
+  /**
+   * Get every entity type supported by the registered recognizers,
+   * optionally for a specific language
+   */
+  getSupportedEntities(language?: string): EntityTypeName[] {
+    const entities = new Set<EntityTypeName>();
+
+    for (const recognizer of this.getRecognizers(undefined, language)) {
+      recognizer.supportedEntities.forEach((entity) => entities.add(entity));
+    }
+
+    return [...entities];
+  }
+
+  /**
+   * Get every language supported by at least one registered recognizer
+   */
+  getSupportedLanguages(): string[] {
+    return [...new Set(this.recognizers.map((r) => r.supportedLanguage))];
+  }
+}
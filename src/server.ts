@@ -0,0 +1,493 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  AnonymizerResult,
+  OperatorConfig,
+  OperatorType,
+  RecognizerResult,
+} from './types.js';
+import { AnalyzeOptions, PresidioAnalyzer } from './analyzer.js';
+import { PresidioAnonymizer } from './anonymizer.js';
+import { PresidioDeanonymizer } from './deanonymizer.js';
+import { EntityVault, InMemoryEntityVault } from './entityVault.js';
+import { DEANONYMIZE_OPERATOR_TYPES, checkOperators } from './policy.js';
+
+/**
+ * Options for creating a Presidio-compatible HTTP server
+ */
+export interface PresidioServerOptions {
+  analyzer: PresidioAnalyzer;
+  /** Operator for /anonymize requests without a DEFAULT (default REDACT) */
+  defaultOperator?: OperatorConfig;
+  /**
+   * Vault shared by the PSEUDONYMIZE operators of every /anonymize request.
+   * By default each request gets a new vault, so pseudonyms are numbered
+   * per request and no values are kept after it
+   */
+  vault?: EntityVault;
+  /** Largest accepted request body, in bytes (default 1 MiB) */
+  maxBodySize?: number;
+  /** Load models and run a first analysis before listening (default true) */
+  warmUp?: boolean;
+}
+
+/**
+ * An error answered with its HTTP status and a { error } body
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  handle: (request: IncomingMessage, url: URL) => Promise<unknown>;
+}
+
+const WARM_UP_TEXT = 'John Smith visited London on 3 March 2024.';
+
+/** Python re flags accepted in regex_flags, and their JavaScript flag */
+const REGEX_FLAGS: Array<[number, string]> = [
+  [2, 'i'], // re.IGNORECASE
+  [8, 'm'], // re.MULTILINE
+  [16, 's'], // re.DOTALL
+];
+/** Presidio's default: re.DOTALL | re.MULTILINE | re.IGNORECASE */
+const DEFAULT_REGEX_FLAGS = 26;
+
+/**
+ * HTTP server exposing the analyzer and anonymizer with the endpoints and
+ * JSON field names of Microsoft Presidio's REST API (/analyze, /anonymize,
+ * /deanonymize, /recognizers, /supportedentities, /anonymizers,
+ * /deanonymizers and /health), so existing Presidio clients can use it
+ */
+export class PresidioServer {
+  readonly server: Server;
+  private analyzer: PresidioAnalyzer;
+  private defaultOperator: OperatorConfig;
+  private vault?: EntityVault;
+  private maxBodySize: number;
+  private warmUp: boolean;
+  private routes: Record<string, Route> = {
+    '/health': { method: 'GET', handle: async () => 'Service is up' },
+    '/analyze': { method: 'POST', handle: (req) => this.analyze(req) },
+    '/anonymize': { method: 'POST', handle: (req) => this.anonymize(req) },
+    '/deanonymize': { method: 'POST', handle: (req) => this.deanonymize(req) },
+    '/recognizers': {
+      method: 'GET',
+      handle: async (_, url) => this.recognizers(url),
+    },
+    '/supportedentities': {
+      method: 'GET',
+      handle: async (_, url) =>
+        this.analyzer.registry.getSupportedEntities(language(url)),
+    },
+    '/anonymizers': {
+      method: 'GET',
+      handle: async () =>
+        Object.values(OperatorType).filter(
+          (type) =>
+            type !== OperatorType.CUSTOM && type !== OperatorType.DECRYPT
+        ),
+    },
+    '/deanonymizers': {
+      method: 'GET',
+      handle: async () => [OperatorType.DECRYPT],
+    },
+  };
+
+  constructor(options: PresidioServerOptions) {
+    this.analyzer = options.analyzer;
+    this.defaultOperator = options.defaultOperator ?? {
+      type: OperatorType.REDACT,
+    };
+    this.vault = options.vault;
+    this.maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    this.warmUp = options.warmUp ?? true;
+    this.server = createServer((request, response) => {
+      this.handleRequest(request, response);
+    });
+  }
+
+  /**
+   * Warm up the analyzer, then start listening, on the loopback interface
+   * unless another host is given. Resolves with the bound address once
+   * requests are accepted
+   */
+  async listen(port = 3000, host = '127.0.0.1'): Promise<AddressInfo> {
+    if (this.warmUp) {
+      await this.analyzer.initialize();
+      for (const lang of this.analyzer.registry.getSupportedLanguages()) {
+        await this.analyzer.analyze(WARM_UP_TEXT, { language: lang });
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return this.server.address() as AddressInfo;
+  }
+
+  /**
+   * Stop accepting connections and wait for open requests to finish
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    let status = 200;
+    let body: unknown;
+
+    try {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const route = this.routes[url.pathname];
+      if (!route) throw new HttpError(404, `Not found: ${url.pathname}`);
+      if (request.method !== route.method) {
+        response.setHeader('Allow', route.method);
+        throw new HttpError(405, `Method ${request.method} not allowed`);
+      }
+      body = await route.handle(request, url);
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: (error as Error).message };
+    }
+
+    // Unread request data would otherwise hold the connection open
+    if (status === 413) response.setHeader('Connection', 'close');
+    if (typeof body === 'string') {
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(body);
+    } else {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    }
+  }
+
+  private async analyze(request: IncomingMessage): Promise<unknown> {
+    const body = await this.readJson(request);
+    const text = requireString(body, 'text');
+    const options: AnalyzeOptions = {
+      language: optionalString(body, 'language'),
+      entities: optionalStringArray(body, 'entities'),
+      scoreThreshold: optionalNumber(body, 'score_threshold'),
+      returnDecisionProcess: optionalBoolean(body, 'return_decision_process'),
+      allowList: allowList(body),
+    };
+
+    const languages = this.analyzer.registry.getSupportedLanguages();
+    if (options.language && !languages.includes(options.language)) {
+      throw new HttpError(
+        400,
+        `No recognizers registered for language '${options.language}'`
+      );
+    }
+
+    const results = await this.analyzer.analyze(text, options);
+    return results.map((result) => ({
+      entity_type: result.entityType,
+      start: result.start,
+      end: result.end,
+      score: result.score,
+      ...(result.analysisExplanation && {
+        analysis_explanation: snakeCaseKeys(result.analysisExplanation),
+      }),
+    }));
+  }
+
+  private async anonymize(request: IncomingMessage): Promise<unknown> {
+    const body = await this.readJson(request);
+    const text = requireString(body, 'text');
+    const results = spans(body, 'analyzer_results', text);
+    const operators = operatorMap(body, 'anonymizers');
+
+    // checkOperators has rejected a list under DEFAULT
+    const defaultOperator = operators.get('DEFAULT') as OperatorConfig;
+    operators.delete('DEFAULT');
+    const anonymizer = new PresidioAnonymizer(
+      defaultOperator ?? this.defaultOperator,
+      this.vault ?? new InMemoryEntityVault()
+    );
+
+    try {
+      return presidioItems(anonymizer.anonymize(text, results, operators));
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+  }
+
+  private async deanonymize(request: IncomingMessage): Promise<unknown> {
+    const body = await this.readJson(request);
+    const text = requireString(body, 'text');
+    const operators = operatorMap(
+      body,
+      'deanonymizers',
+      DEANONYMIZE_OPERATOR_TYPES
+    );
+    if ([...operators.values()].some(Array.isArray)) {
+      throw new HttpError(
+        400,
+        'deanonymizers: operator lists are not supported'
+      );
+    }
+
+    const items = spans(body, 'anonymizer_results', text).map((span) => {
+      if (!operators.has(span.entityType) && !operators.has('DEFAULT')) {
+        throw new HttpError(400, `No deanonymizer for ${span.entityType}`);
+      }
+      // Every item has a deanonymizer, so the operator it records is unused
+      return {
+        ...span,
+        originalStart: span.start,
+        originalEnd: span.end,
+        operator: OperatorType.ENCRYPT,
+      };
+    });
+
+    const single = operators as Map<string, OperatorConfig>;
+    const deanonymizer = new PresidioDeanonymizer(single.get('DEFAULT'));
+    try {
+      return presidioItems(deanonymizer.deanonymize(text, items, single));
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+  }
+
+  private recognizers(url: URL): string[] {
+    const recognizers = this.analyzer.registry.getRecognizers(
+      undefined,
+      language(url)
+    );
+    return [...new Set(recognizers.map((recognizer) => recognizer.name))];
+  }
+
+  /**
+   * Read a JSON object body, enforcing maxBodySize
+   */
+  private async readJson(request: IncomingMessage): Promise<JsonObject> {
+    const tooLarge = new HttpError(
+      413,
+      `Request body exceeds ${this.maxBodySize} bytes`
+    );
+    if (Number(request.headers['content-length']) > this.maxBodySize) {
+      throw tooLarge;
+    }
+
+    const text = await new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          // Discard the rest of the body
+          request.off('data', onData);
+          request.resume();
+          reject(tooLarge);
+        } else {
+          chunks.push(chunk);
+        }
+      };
+      request.on('data', onData);
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch (error) {
+      throw new HttpError(400, `Invalid JSON: ${(error as Error).message}`);
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    return body as JsonObject;
+  }
+}
+
+function language(url: URL): string | undefined {
+  return url.searchParams.get('language') ?? undefined;
+}
+
+function requireString(body: JsonObject, key: string): string {
+  if (typeof body[key] !== 'string') {
+    throw new HttpError(400, `${key} must be a string`);
+  }
+  return body[key] as string;
+}
+
+function optionalString(body: JsonObject, key: string): string | undefined {
+  return body[key] === undefined ? undefined : requireString(body, key);
+}
+
+function optionalNumber(body: JsonObject, key: string): number | undefined {
+  if (body[key] !== undefined && typeof body[key] !== 'number') {
+    throw new HttpError(400, `${key} must be a number`);
+  }
+  return body[key] as number | undefined;
+}
+
+function optionalBoolean(body: JsonObject, key: string): boolean | undefined {
+  if (body[key] !== undefined && typeof body[key] !== 'boolean') {
+    throw new HttpError(400, `${key} must be true or false`);
+  }
+  return body[key] as boolean | undefined;
+}
+
+function optionalStringArray(
+  body: JsonObject,
+  key: string
+): string[] | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new HttpError(400, `${key} must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * Translate allow_list, allow_list_match and regex_flags. Presidio's regex
+ * entries suppress a result when they match anywhere in its text
+ */
+function allowList(body: JsonObject): Array<string | RegExp> | undefined {
+  const entries = optionalStringArray(body, 'allow_list');
+  const match = optionalString(body, 'allow_list_match') ?? 'exact';
+  if (!entries) return undefined;
+  if (match === 'exact') return entries;
+  if (match !== 'regex') {
+    throw new HttpError(400, "allow_list_match must be 'exact' or 'regex'");
+  }
+
+  const bits = optionalNumber(body, 'regex_flags') ?? DEFAULT_REGEX_FLAGS;
+  const flags = REGEX_FLAGS.filter(([bit]) => bits & bit)
+    .map(([, flag]) => flag)
+    .join('');
+  return entries.map((entry) => {
+    try {
+      return new RegExp(`[\\s\\S]*(?:${entry})[\\s\\S]*`, flags);
+    } catch (error) {
+      throw new HttpError(400, `allow_list: ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Read a list of { start, end, entity_type, score? } spans of the text
+ */
+function spans(
+  body: JsonObject,
+  key: string,
+  text: string
+): RecognizerResult[] {
+  const value = body[key] ?? [];
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, `${key} must be an array`);
+  }
+
+  return value.map((item, i) => {
+    const path = `${key}[${i}]`;
+    if (typeof item !== 'object' || item === null) {
+      throw new HttpError(400, `${path} must be an object`);
+    }
+
+    const { start, end, entity_type: entityType, score = 1 } = item;
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      start > end ||
+      end > text.length
+    ) {
+      throw new HttpError(400, `${path}: start and end must be within text`);
+    }
+    if (typeof entityType !== 'string') {
+      throw new HttpError(400, `${path}.entity_type must be a string`);
+    }
+    if (typeof score !== 'number') {
+      throw new HttpError(400, `${path}.score must be a number`);
+    }
+
+    return { entityType, start, end, score, text: text.substring(start, end) };
+  });
+}
+
+/**
+ * Read an anonymizers or deanonymizers map, translating Presidio's
+ * snake_case operator parameters (new_value, masking_char, chars_to_mask,
+ * from_end, hash_type, key) to OperatorConfig fields
+ */
+function operatorMap(
+  body: JsonObject,
+  key: string,
+  types?: string[]
+): Map<string, OperatorConfig | OperatorConfig[]> {
+  let value = body[key] ?? {};
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    value = Object.fromEntries(
+      Object.entries(value).map(([entityType, operator]) => [
+        entityType,
+        camelCaseKeys(operator),
+      ])
+    );
+  }
+
+  const errors = checkOperators(value, key, types);
+  if (errors.length > 0) throw new HttpError(400, errors.join('; '));
+  return new Map(Object.entries(value as JsonObject)) as Map<
+    string,
+    OperatorConfig | OperatorConfig[]
+  >;
+}
+
+function presidioItems(result: AnonymizerResult): unknown {
+  return {
+    text: result.text,
+    items: result.items.map((item) => ({
+      start: item.start,
+      end: item.end,
+      entity_type: item.entityType,
+      text: item.text,
+      operator: item.operator,
+    })),
+  };
+}
+
+function camelCaseKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(camelCaseKeys);
+  if (typeof value !== 'object' || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([name, v]) => [
+      name.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase()),
+      v,
+    ])
+  );
+}
+
+function snakeCaseKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(snakeCaseKeys);
+  if (typeof value !== 'object' || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([name, v]) => [
+      name.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`),
+      snakeCaseKeys(v),
+    ])
+  );
+}
@@ -0,0 +1,223 @@
+import {
+  EntityTypeName,
+  OperatorConfig,
+  RecognizerResult,
+} from './types.js';
+import { PresidioAnalyzer, AnalyzeOptions } from './analyzer.js';
+import { PresidioAnonymizer } from './anonymizer.js';
+
+/**
+ * How to treat the value at a key path. A configuration also applies to
+ * everything below the path unless a deeper path has its own
+ */
+export interface FieldConfig {
+  /** Leave the value untouched */
+  skip?: boolean;
+  /** Treat each string as a whole as this entity type instead of analyzing it */
+  entityType?: EntityTypeName;
+  /** Operators for this field, taking precedence over the global operators */
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+}
+
+/**
+ * Options for creating a structured anonymizer
+ */
+export interface StructuredAnonymizerOptions {
+  analyzer: PresidioAnalyzer;
+  /** Anonymizer to apply (default: a new REDACT anonymizer) */
+  anonymizer?: PresidioAnonymizer;
+  analyzeOptions?: AnalyzeOptions;
+  operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  /**
+   * Per-path configuration, keyed by paths such as '$.customer.ssn',
+   * '$.orders[0].note' or '$.contacts[*].email'. When several paths match,
+   * the first one listed wins
+   */
+  fields?: Record<string, FieldConfig>;
+}
+
+/**
+ * Result of anonymizing a structured value
+ */
+export interface StructuredAnonymizerResult<T> {
+  value: T;
+  /** Paths of the string values that were changed, in traversal order */
+  changedPaths: string[];
+}
+
+/**
+ * Anonymizes every string in a JSON value (objects, arrays and primitives),
+ * returning a value of the same shape. Numbers, booleans and null are kept
+ */
+export class StructuredAnonymizer {
+  private analyzer: PresidioAnalyzer;
+  private anonymizer: PresidioAnonymizer;
+  private analyzeOptions?: AnalyzeOptions;
+  private operators?: Map<EntityTypeName, OperatorConfig | OperatorConfig[]>;
+  private fields: Array<{ segments: string[]; config: FieldConfig }>;
+
+  constructor(options: StructuredAnonymizerOptions) {
+    this.analyzer = options.analyzer;
+    this.anonymizer = options.anonymizer ?? new PresidioAnonymizer();
+    this.analyzeOptions = options.analyzeOptions;
+    this.operators = options.operators;
+    this.fields = Object.entries(options.fields ?? {}).map(
+      ([path, config]) => ({
+        segments: StructuredAnonymizer.parsePath(path),
+        config,
+      })
+    );
+  }
+
+  /**
+   * Split a path such as '$.a.b[0]["c d"]' into its keys and indices
+   */
+  static parsePath(path: string): string[] {
+    if (!path.startsWith('$')) {
+      throw new Error(`Invalid path '${path}': must start with '$'`);
+    }
+
+    const segments: string[] = [];
+    const segment = /\.([^.[\]]+)|\[(\d+|\*)\]|\[(["'])(.*?)\3\]/gy;
+    segment.lastIndex = 1;
+    let match;
+
+    while (segment.lastIndex < path.length) {
+      match = segment.exec(path);
+      if (!match) throw new Error(`Invalid path '${path}'`);
+      segments.push(match[1] ?? match[2] ?? match[4]);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Format path segments as a path string
+   */
+  static formatPath(segments: Array<string | number>): string {
+    return (
+      '$' +
+      segments
+        .map((segment) => {
+          if (typeof segment === 'number') return `[${segment}]`;
+          return /^[A-Za-z_$][\w$]*$/.test(segment)
+            ? `.${segment}`
+            : `[${JSON.stringify(segment)}]`;
+        })
+        .join('')
+    );
+  }
+
+  /**
+   * Anonymize every string in a value, returning a copy of the same shape
+   */
+  async anonymize<T>(value: T): Promise<StructuredAnonymizerResult<T>> {
+    const changedPaths: string[] = [];
+    const anonymized = await this.visit(value, [], {}, changedPaths);
+
+    return { value: anonymized as T, changedPaths };
+  }
+
+  private async visit(
+    value: unknown,
+    path: Array<string | number>,
+    inherited: FieldConfig,
+    changedPaths: string[]
+  ): Promise<unknown> {
+    const config = this.getFieldConfig(path) ?? inherited;
+    if (config.skip) return value;
+
+    if (typeof value === 'string') {
+      const anonymized = await this.anonymizeString(value, config);
+      if (anonymized !== value) {
+        changedPaths.push(StructuredAnonymizer.formatPath(path));
+      }
+      return anonymized;
+    }
+
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < value.length; i++) {
+        items.push(
+          await this.visit(value[i], [...path, i], config, changedPaths)
+        );
+      }
+      return items;
+    }
+
+    if (StructuredAnonymizer.isPlainObject(value)) {
+      // Object.fromEntries defines keys such as "__proto__" as own
+      // properties, where assigning them would set the prototype
+      const entries: Array<[string, unknown]> = [];
+      for (const [key, child] of Object.entries(value)) {
+        entries.push([
+          key,
+          await this.visit(child, [...path, key], config, changedPaths),
+        ]);
+      }
+      return Object.fromEntries(entries);
+    }
+
+    return value;
+  }
+
+  private async anonymizeString(
+    value: string,
+    config: FieldConfig
+  ): Promise<string> {
+    let results: RecognizerResult[];
+
+    if (config.entityType) {
+      results = value
+        ? [
+            {
+              entityType: config.entityType,
+              start: 0,
+              end: value.length,
+              score: 1.0,
+              text: value,
+            },
+          ]
+        : [];
+    } else {
+      results = await this.analyzer.analyze(value, this.analyzeOptions);
+    }
+
+    if (results.length === 0) return value;
+
+    const operators = config.operators
+      ? new Map([...(this.operators ?? []), ...config.operators])
+      : this.operators;
+    const anonymized = await this.anonymizer.anonymizeAsync(
+      value,
+      results,
+      operators
+    );
+
+    return anonymized.text;
+  }
+
+  /**
+   * Find the first configured path matching a concrete path
+   */
+  private getFieldConfig(
+    path: Array<string | number>
+  ): FieldConfig | undefined {
+    return this.fields.find(
+      ({ segments }) =>
+        segments.length === path.length &&
+        segments.every(
+          (segment, i) => segment === '*' || segment === String(path[i])
+        )
+    )?.config;
+  }
+
+  private static isPlainObject(
+    value: unknown
+  ): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) return false;
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+}
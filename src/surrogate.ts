@@ -0,0 +1,220 @@
+import * as crypto from 'crypto';
+import { EntityType, EntityTypeName } from './types.js';
+import {
+  FIRST_NAMES,
+  LAST_NAMES,
+  CITIES,
+  ORGANIZATIONS,
+  EMAIL_DOMAINS,
+  MONTH_NAMES,
+} from './surrogateData.js';
+import { luhnChecksum } from './validators.js';
+
+/**
+ * Generates realistic fake values that keep the format of the original.
+ * Output depends only on the seed, entity type and original value, so the
+ * same input always gets the same surrogate
+ */
+export class SurrogateGenerator {
+  private seed: string;
+
+  /**
+   * Without a seed a random one is used, so surrogates are consistent for
+   * this generator but not reproducible across runs
+   */
+  constructor(seed?: string | number) {
+    this.seed =
+      seed === undefined ? crypto.randomBytes(16).toString('hex') : String(seed);
+  }
+
+  /**
+   * Generate a surrogate for a value of the given entity type
+   */
+  generate(value: string, entityType: EntityTypeName): string {
+    const random = this.createRandom(value, entityType);
+
+    switch (entityType) {
+      case EntityType.PERSON:
+        return this.person(value, random);
+      case EntityType.EMAIL_ADDRESS:
+        return this.email(random);
+      case EntityType.PHONE_NUMBER:
+        return this.phone(value, random);
+      case EntityType.CREDIT_CARD:
+        return this.creditCard(value, random);
+      case EntityType.US_SSN:
+        return this.ssn(value, random);
+      case EntityType.IP_ADDRESS:
+        return this.ipAddress(value, random);
+      case EntityType.URL:
+        return this.url(value, random);
+      case EntityType.LOCATION:
+        return this.pick(CITIES, random);
+      case EntityType.ORGANIZATION:
+        return this.pick(ORGANIZATIONS, random);
+      case EntityType.DATE_TIME:
+        return this.dateTime(value, random);
+      default:
+        // Custom entities keep their punctuation and character classes
+        return this.sameShape(value, random);
+    }
+  }
+
+  private person(value: string, random: () => number): string {
+    const first = this.pick(FIRST_NAMES, random);
+    const last = this.pick(LAST_NAMES, random);
+    const name = value.trim().includes(' ') ? `${first} ${last}` : first;
+
+    return value === value.toUpperCase() ? name.toUpperCase() : name;
+  }
+
+  private email(random: () => number): string {
+    const first = this.pick(FIRST_NAMES, random).toLowerCase();
+    const last = this.pick(LAST_NAMES, random).toLowerCase();
+
+    return `${first}.${last}@${this.pick(EMAIL_DOMAINS, random)}`;
+  }
+
+  private phone(value: string, random: () => number): string {
+    // Keep an explicit country code, and start each digit group with 2-9 so
+    // area codes and exchanges look plausible
+    const countryCode = /^\+\d{1,3}/.exec(value)?.[0] ?? '';
+
+    return (
+      countryCode +
+      value
+        .substring(countryCode.length)
+        .replace(/\d+/g, (group) =>
+          group
+            .split('')
+            .map((_, i) =>
+              i === 0 && group.length > 1
+                ? String(2 + Math.floor(random() * 8))
+                : this.digit(random)
+            )
+            .join('')
+        )
+    );
+  }
+
+  private creditCard(value: string, random: () => number): string {
+    const digitCount = value.replace(/\D/g, '').length;
+
+    // Keep the first digit so the card network stays the same
+    let digits = value.replace(/\D/g, '')[0];
+    while (digits.length < digitCount - 1) {
+      digits += this.digit(random);
+    }
+    for (let check = 0; check <= 9; check++) {
+      if (luhnChecksum(digits + check)) {
+        digits += check;
+        break;
+      }
+    }
+
+    return this.fillDigits(value, digits);
+  }
+
+  private ssn(value: string, random: () => number): string {
+    const area = String(1 + Math.floor(random() * 665)).padStart(3, '0');
+    const group = String(1 + Math.floor(random() * 99)).padStart(2, '0');
+    const serial = String(1 + Math.floor(random() * 9999)).padStart(4, '0');
+
+    return this.fillDigits(value, area + group + serial);
+  }
+
+  private ipAddress(value: string, random: () => number): string {
+    if (value.includes(':')) {
+      return value.replace(/[0-9A-Fa-f]/g, () =>
+        Math.floor(random() * 16).toString(16)
+      );
+    }
+
+    // Use the private 10.0.0.0/8 range so surrogates never hit real hosts
+    const octets = [10];
+    while (octets.length < 4) {
+      octets.push(1 + Math.floor(random() * 254));
+    }
+
+    return octets.join('.');
+  }
+
+  private url(value: string, random: () => number): string {
+    const scheme = /^https?:\/\//.exec(value)?.[0] ?? 'https://';
+    const name = this.pick(LAST_NAMES, random).toLowerCase();
+
+    return `${scheme}www.${name}.example.com/`;
+  }
+
+  private dateTime(value: string, random: () => number): string {
+    // Month names become another month, four-digit runs a year and shorter
+    // runs a number from 1-12, which is valid as both a day and a month
+    return value
+      .replace(/[A-Za-z]{3,}/g, (word) => {
+        const index = MONTH_NAMES.findIndex((m) =>
+          m.toLowerCase().startsWith(word.substring(0, 3).toLowerCase())
+        );
+        if (index < 0) return word;
+
+        const month = this.pick(MONTH_NAMES, random);
+        return word.length <= 3 ? month.substring(0, 3) : month;
+      })
+      .replace(/(\d+)(st|nd|rd|th)?/g, (_, run: string, ordinal?: string) => {
+        const number =
+          run.length === 4
+            ? 1950 + Math.floor(random() * 60)
+            : 1 + Math.floor(random() * 12);
+        const suffix = ordinal ? this.ordinalSuffix(number) : '';
+        return String(number).padStart(run.length, '0') + suffix;
+      });
+  }
+
+  private ordinalSuffix(number: number): string {
+    if (number >= 11 && number <= 13) return 'th';
+    return ['th', 'st', 'nd', 'rd'][number % 10] ?? 'th';
+  }
+
+  private sameShape(value: string, random: () => number): string {
+    return value.replace(/[0-9A-Za-z]/g, (char) => {
+      if (/\d/.test(char)) return this.digit(random);
+
+      const letter = String.fromCharCode(97 + Math.floor(random() * 26));
+      return char === char.toUpperCase() ? letter.toUpperCase() : letter;
+    });
+  }
+
+  /**
+   * Write new digits into the digit positions of a value, keeping separators
+   */
+  private fillDigits(value: string, digits: string): string {
+    let index = 0;
+    return value.replace(/\d/g, () => digits[index++]);
+  }
+
+  private digit(random: () => number): string {
+    return String(Math.floor(random() * 10));
+  }
+
+  private pick<T>(items: T[], random: () => number): T {
+    return items[Math.floor(random() * items.length)];
+  }
+
+  /**
+   * Create a PRNG (mulberry32) seeded from the seed, entity type and value
+   */
+  private createRandom(value: string, entityType: EntityTypeName): () => number {
+    let state = crypto
+      .createHash('sha256')
+      .update(`${this.seed}\u0000${entityType}\u0000${value}`)
+      .digest()
+      .readUInt32LE(0);
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Built-in word lists used by the SURROGATE operator. All values are common
+ * names or reserved example domains so that no generated value points to a
+ * real service
+ */
+
+export const FIRST_NAMES = [
+  'James',
+  'Mary',
+  'Robert',
+  'Patricia',
+  'John',
+  'Jennifer',
+  'Michael',
+  'Linda',
+  'David',
+  'Elizabeth',
+  'William',
+  'Barbara',
+  'Richard',
+  'Susan',
+  'Joseph',
+  'Jessica',
+  'Thomas',
+  'Sarah',
+  'Carlos',
+  'Maria',
+  'Daniel',
+  'Nancy',
+  'Matthew',
+  'Lisa',
+  'Anthony',
+  'Priya',
+  'Mark',
+  'Emily',
+  'Wei',
+  'Fatima',
+  'Kevin',
+  'Laura',
+  'Ahmed',
+  'Sofia',
+  'Brian',
+  'Anna',
+];
+
+export const LAST_NAMES = [
+  'Smith',
+  'Johnson',
+  'Williams',
+  'Brown',
+  'Jones',
+  'Garcia',
+  'Miller',
+  'Davis',
+  'Rodriguez',
+  'Martinez',
+  'Hernandez',
+  'Lopez',
+  'Wilson',
+  'Anderson',
+  'Thomas',
+  'Taylor',
+  'Moore',
+  'Jackson',
+  'Martin',
+  'Lee',
+  'Thompson',
+  'White',
+  'Harris',
+  'Clark',
+  'Lewis',
+  'Walker',
+  'Young',
+  'Allen',
+  'King',
+  'Wright',
+  'Nguyen',
+  'Patel',
+  'Kim',
+  'Chen',
+  'Singh',
+  'Novak',
+];
+
+export const CITIES = [
+  'Springfield',
+  'Riverside',
+  'Franklin',
+  'Greenville',
+  'Fairview',
+  'Madison',
+  'Georgetown',
+  'Salem',
+  'Clinton',
+  'Arlington',
+  'Ashland',
+  'Burlington',
+  'Manchester',
+  'Milton',
+  'Oxford',
+  'Clayton',
+  'Dover',
+  'Jackson',
+  'Lexington',
+  'Newport',
+  'Hudson',
+  'Kingston',
+  'Marion',
+  'Dayton',
+];
+
+export const ORGANIZATIONS = [
+  'Acme Corporation',
+  'Globex Inc.',
+  'Initech',
+  'Umbrella Holdings',
+  'Stark Industries',
+  'Wayne Enterprises',
+  'Hooli',
+  'Vandelay Industries',
+  'Soylent Corp',
+  'Cyberdyne Systems',
+  'Wonka Industries',
+  'Tyrell Corporation',
+  'Massive Dynamic',
+  'Oceanic Airlines',
+  'Pied Piper',
+  'Dunder Mifflin',
+];
+
+export const EMAIL_DOMAINS = [
+  'example.com',
+  'example.org',
+  'example.net',
+  'mail.example.com',
+];
+
+export const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
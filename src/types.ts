@@ -1,3 +1,5 @@
+import { EntityVault } from './entityVault.js';
+
 /**
  * Entity types that can be detected
  */
@@ -12,17 +14,73 @@ export enum EntityType {
   IP_ADDRESS = 'IP_ADDRESS',
   URL = 'URL',
   DATE_TIME = 'DATE_TIME',
+  IBAN_CODE = 'IBAN_CODE',
+  UK_NINO = 'UK_NINO',
+  UK_NHS = 'UK_NHS',
+  EU_VAT = 'EU_VAT',
+  PASSPORT = 'PASSPORT',
+  AWS_ACCESS_KEY = 'AWS_ACCESS_KEY',
+  API_KEY = 'API_KEY',
+  JWT = 'JWT',
+  BEARER_TOKEN = 'BEARER_TOKEN',
+  PRIVATE_KEY = 'PRIVATE_KEY',
+  PASSWORD = 'PASSWORD',
+  URL_CREDENTIALS = 'URL_CREDENTIALS',
+  SECRET = 'SECRET',
+}
+
+/**
+ * Entity type name. The EntityType members are the well-known values, but any
+ * string can be used for custom entities (e.g. 'EMPLOYEE_ID')
+ */
+export type EntityTypeName = EntityType | (string & {});
+
+/**
+ * A change made to a result's score after recognition
+ */
+export interface ScoreAdjustment {
+  reason: string;
+  previousScore: number;
+  score: number;
+}
+
+/**
+ * A result dropped in favour of an overlapping one
+ */
+export interface SupersededResult {
+  entityType: EntityTypeName;
+  start: number;
+  end: number;
+  score: number;
+  recognizer: string;
+}
+
+/**
+ * Why a result was produced and how its score was reached
+ */
+export interface AnalysisExplanation {
+  recognizer: string;
+  /** Name and source of the regex that matched, for pattern recognizers */
+  patternName?: string;
+  pattern?: string;
+  /** Raw label emitted by the NER model, e.g. 'B-LOC' */
+  nerLabel?: string;
+  originalScore: number;
+  scoreAdjustments: ScoreAdjustment[];
+  supersededResults: SupersededResult[];
 }
 
 /**
  * Result of entity recognition
  */
 export interface RecognizerResult {
-  entityType: EntityType;
+  entityType: EntityTypeName;
   start: number;
   end: number;
   score: number;
   text: string;
+  /** Set by the analyzer when returnDecisionProcess is enabled */
+  analysisExplanation?: AnalysisExplanation;
 }
 
 /**
@@ -33,6 +91,24 @@ export enum OperatorType {
   REPLACE = 'replace',
   MASK = 'mask',
   HASH = 'hash',
+  ENCRYPT = 'encrypt',
+  DECRYPT = 'decrypt',
+  PSEUDONYMIZE = 'pseudonymize',
+  SURROGATE = 'surrogate',
+  CUSTOM = 'custom',
+}
+
+/**
+ * Information passed to a CUSTOM operator function
+ */
+export interface OperatorContext {
+  entityType: EntityTypeName;
+  score: number;
+  /** Span of the entity in the original text */
+  start: number;
+  end: number;
+  /** The full original text, for looking at what surrounds the entity */
+  text: string;
 }
 
 /**
@@ -44,6 +120,29 @@ export interface OperatorConfig {
   maskingChar?: string;
   charsToMask?: number;
   fromEnd?: boolean;
+  /** For HASH: digest algorithm such as 'sha256' (default) or 'sha512' */
+  hashType?: string;
+  /** For HASH: secret key, switches hashing to HMAC */
+  hashKey?: string;
+  /** For HASH: salt prepended to the value before hashing */
+  salt?: string;
+  /** For HASH: number of output characters kept (default 16) */
+  hashLength?: number;
+  /** For HASH: output encoding (default 'hex') */
+  hashEncoding?: 'hex' | 'base64url';
+  /** For HASH: prefix the output with the entity type, e.g. US_SSN_3f2a... */
+  hashPrefix?: boolean;
+  /** For ENCRYPT/DECRYPT: AES key of 16, 24 or 32 bytes */
+  key?: string;
+  /** For PSEUDONYMIZE: vault to use instead of the anonymizer's own */
+  vault?: EntityVault;
+  /** For SURROGATE: seed making generated values reproducible */
+  seed?: string | number;
+  /** For CUSTOM: returns the replacement, synchronously or as a Promise */
+  customFunction?: (
+    value: string,
+    context: OperatorContext
+  ) => string | Promise<string>;
 }
 
 /**
@@ -52,10 +151,39 @@ export interface OperatorConfig {
 export interface AnonymizerResult {
   text: string;
   items: Array<{
+    /** Span of the replacement in the output text */
     start: number;
     end: number;
-    entityType: EntityType;
+    /** Span of the replaced entity in the input text */
+    originalStart: number;
+    originalEnd: number;
+    entityType: EntityTypeName;
     text: string;
     operator: OperatorType;
   }>;
 }
+
+/**
+ * Options passed to recognizers' initialize
+ */
+export interface InitializeOptions {
+  /** Receives progress messages such as model loading (default console.log) */
+  logger?: (message: string) => void;
+}
+
+/**
+ * Common interface implemented by every recognizer the analyzer can run
+ */
+export interface EntityRecognizer {
+  /** Unique name used to look up, replace or remove the recognizer */
+  readonly name: string;
+  readonly supportedEntities: EntityTypeName[];
+  readonly supportedLanguage: string;
+  /** Words that, near a match, increase confidence in it (e.g. 'ssn') */
+  readonly context?: string[];
+  /** Optional async setup (e.g. loading a model), called by the analyzer */
+  initialize?(options?: InitializeOptions): Promise<void>;
+  recognize(text: string): RecognizerResult[] | Promise<RecognizerResult[]>;
+  /** Optional batched recognition, used by PresidioAnalyzer.analyzeBatch */
+  recognizeBatch?(texts: string[]): Promise<RecognizerResult[][]>;
+}
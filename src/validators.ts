@@ -0,0 +1,392 @@
+/**
+ * Outcome of validating a pattern match: `false` rejects the match, `true`
+ * keeps the pattern score and a number replaces the score (0 rejects)
+ */
+export type ValidationResult = boolean | number;
+
+/**
+ * Check a digit string against the Luhn (mod 10) checksum
+ */
+export function luhnChecksum(digits: string): boolean {
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * Validate a credit card number: 13-19 digits passing the Luhn checksum
+ */
+export function validateCreditCard(text: string): ValidationResult {
+  const digits = text.replace(/[-\s]/g, '');
+
+  if (!/^\d{13,19}$/.test(digits) || !luhnChecksum(digits)) {
+    return false;
+  }
+
+  // A valid checksum is strong evidence, so raise the score to the maximum
+  return 1.0;
+}
+
+// Numbers published by the SSA or in advertising, never assigned to a person
+const INVALID_SSNS = ['078051120', '219099999'];
+
+/**
+ * Validate a US SSN against the SSA rules for unassigned numbers
+ */
+export function validateUsSsn(text: string): ValidationResult {
+  const digits = text.replace(/\D/g, '');
+  if (digits.length !== 9) return false;
+
+  const area = digits.substring(0, 3);
+  const group = digits.substring(3, 5);
+  const serial = digits.substring(5);
+
+  if (area === '000' || area === '666' || area[0] === '9') return false;
+  if (group === '00' || serial === '0000') return false;
+  if (/^(\d)\1{8}$/.test(digits)) return false;
+
+  return !INVALID_SSNS.includes(digits);
+}
+
+/**
+ * Validate a dotted IPv4 address (four octets in the 0-255 range)
+ */
+export function validateIPv4(text: string): ValidationResult {
+  const octets = text.split('.');
+
+  return (
+    octets.length === 4 &&
+    octets.every((octet) => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)
+  );
+}
+
+/**
+ * Validate an IPv6 address, including `::` zero compression
+ */
+export function validateIPv6(text: string): ValidationResult {
+  const halves = text.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  if (!groups.every((group) => /^[0-9A-Fa-f]{1,4}$/.test(group))) {
+    return false;
+  }
+
+  if (halves.length === 2) {
+    return groups.length >= 1 && groups.length < 8;
+  }
+
+  return groups.length === 8;
+}
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+/**
+ * Check that a day exists in the given month. Two-digit years are accepted,
+ * and without a year February 29th is allowed
+ */
+function isValidDate(day: number, month: number, year?: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+
+  const leap =
+    year === undefined ||
+    (year % 4 === 0 && (year < 100 || year % 100 !== 0 || year % 400 === 0));
+  const daysInMonth = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+  return day <= daysInMonth[month - 1];
+}
+
+/**
+ * Validate an ISO 8601 date (year first), with an optional time part
+ */
+export function validateIsoDate(text: string): ValidationResult {
+  const match = /^(\d{4})\D(\d{2})\D(\d{2})(?:[T ](\d{2}):(\d{2}))?/.exec(text);
+  if (!match) return false;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  if (!isNaN(hour) && (hour > 23 || minute > 59)) {
+    return false;
+  }
+
+  return isValidDate(day, month, year);
+}
+
+/**
+ * Validate a numeric date in either US (month first) or EU (day first) order
+ */
+export function validateNumericDate(text: string): ValidationResult {
+  const parts = text.split(/[/.-]/).map(Number);
+  if (parts.length !== 3) return false;
+
+  const [first, second, year] = parts;
+  return isValidDate(second, first, year) || isValidDate(first, second, year);
+}
+
+/**
+ * Validate a date with a written month name, e.g. "March 3rd, 1985" or
+ * "3 March 1985"
+ */
+export function validateWrittenDate(text: string): ValidationResult {
+  const monthMatch = /[A-Za-z]{3,}/g;
+  let month = 0;
+  let match;
+
+  while ((match = monthMatch.exec(text)) !== null) {
+    const index = MONTHS.indexOf(match[0].substring(0, 3).toLowerCase());
+    if (index >= 0) {
+      month = index + 1;
+      break;
+    }
+  }
+
+  const numbers = (text.match(/\d+/g) || []).map(Number);
+  const day = numbers.find((n) => n <= 31);
+  const year = numbers.find((n) => n > 31);
+
+  if (!month) return false;
+  if (day === undefined) return year !== undefined;
+
+  return isValidDate(day, month, year);
+}
+
+// IBAN length per country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22,
+  BR: 29, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20,
+  EG: 29, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18,
+  GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30,
+  KW: 30, KZ: 20, LB: 28, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24,
+  ME: 22, MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28,
+  PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SE: 24, SI: 19, SK: 24,
+  SM: 27, TN: 24, TR: 26, UA: 29, VG: 24, XK: 20,
+};
+
+/**
+ * Compute a number written in digits and letters (A=10 ... Z=35) modulo 97,
+ * as used by IBAN and some VAT check digits
+ */
+function mod97(text: string): number {
+  let remainder = 0;
+
+  for (const char of text) {
+    const value = parseInt(char, 36);
+    remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+  }
+
+  return remainder;
+}
+
+/**
+ * Validate an IBAN: known country length and ISO 7064 mod-97 check digits
+ */
+export function validateIban(text: string): ValidationResult {
+  const iban = text.replace(/\s/g, '').toUpperCase();
+
+  if (IBAN_LENGTHS[iban.substring(0, 2)] !== iban.length) return false;
+  if (mod97(iban.substring(4) + iban.substring(0, 4)) !== 1) return false;
+
+  return 1.0;
+}
+
+// Prefixes never issued as National Insurance numbers
+const INVALID_NINO_PREFIXES = ['BG', 'GB', 'KN', 'NK', 'NT', 'TN', 'ZZ'];
+
+/**
+ * Validate a UK National Insurance number. NINOs have no check digit, so
+ * only the prefix rules published by HMRC are checked
+ */
+export function validateUkNino(text: string): ValidationResult {
+  const nino = text.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(nino)) {
+    return false;
+  }
+
+  return !INVALID_NINO_PREFIXES.includes(nino.substring(0, 2));
+}
+
+/**
+ * Validate a UK NHS number: 10 digits with a mod-11 check digit. A valid
+ * number scores 0.9, above the US phone number pattern, but one in eleven
+ * random numbers passes, so phone context words still make it a phone number
+ */
+export function validateUkNhs(text: string): ValidationResult {
+  const digits = text.replace(/[-\s]/g, '');
+  if (!/^\d{10}$/.test(digits) || /^(\d)\1{9}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += Number(digits[i]) * (10 - i);
+  }
+  const check = (11 - (sum % 11)) % 11;
+
+  if (check === 10 || check !== Number(digits[9])) return false;
+
+  return 0.9;
+}
+
+// VAT number format after the country prefix, per EU member state
+const VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[0-9A-Z]\d{7}[0-9A-Z]$/,
+  FI: /^\d{8}$/,
+  FR: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(?:\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(?:\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+/**
+ * Sum of digits multiplied by the given weights
+ */
+function weightedSum(digits: string, weights: number[]): number {
+  return weights.reduce(
+    (sum, weight, i) => sum + Number(digits[i]) * weight,
+    0
+  );
+}
+
+/**
+ * Check digits of the VAT numbers whose algorithm is public. Returns
+ * undefined for countries without a check implemented here
+ */
+function checkVatDigits(country: string, number: string): boolean | undefined {
+  const last = Number(number[number.length - 1]);
+
+  switch (country) {
+    case 'AT': {
+      const digits = number.substring(1);
+      let sum = 0;
+      for (let i = 0; i < 7; i++) {
+        const digit = Number(digits[i]) * (i % 2 === 1 ? 2 : 1);
+        sum += Math.floor(digit / 10) + (digit % 10);
+      }
+      return (10 - ((sum + 4) % 10)) % 10 === Number(digits[7]);
+    }
+    case 'BE':
+      return (
+        97 - (Number(number.substring(0, 8)) % 97) ===
+        Number(number.substring(8))
+      );
+    case 'DE': {
+      // ISO 7064 MOD 11,10
+      let product = 10;
+      for (let i = 0; i < 8; i++) {
+        const sum = (Number(number[i]) + product) % 10 || 10;
+        product = (2 * sum) % 11;
+      }
+      return (11 - product) % 10 === last;
+    }
+    case 'DK':
+      return weightedSum(number, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0;
+    case 'FI': {
+      const remainder = weightedSum(number, [7, 9, 10, 5, 8, 4, 2]) % 11;
+      return remainder !== 1 && (11 - remainder) % 11 === last;
+    }
+    case 'FR': {
+      if (!/^\d{2}/.test(number)) return undefined;
+      const siren = Number(number.substring(2));
+      return (12 + 3 * (siren % 97)) % 97 === Number(number.substring(0, 2));
+    }
+    case 'IT':
+      return luhnChecksum(number);
+    case 'NL': {
+      // Legacy mod-11 numbers, or the mod-97 scheme used since 2020
+      const mod11 = weightedSum(number, [9, 8, 7, 6, 5, 4, 3, 2]) % 11;
+      return mod11 === Number(number[8]) || mod97('NL' + number) === 1;
+    }
+    case 'PL': {
+      const check = weightedSum(number, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11;
+      return check === last;
+    }
+    case 'PT': {
+      const check = 11 - (weightedSum(number, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+      return (check > 9 ? 0 : check) === last;
+    }
+    case 'SE':
+      return luhnChecksum(number.substring(0, 10));
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validate an EU VAT identification number: country format, and check digits
+ * where the country's algorithm is implemented (raising the score to 1.0)
+ */
+export function validateEuVat(text: string): ValidationResult {
+  const vat = text.replace(/[\s.-]/g, '').toUpperCase();
+  const country = vat.substring(0, 2);
+  const number = vat.substring(2);
+
+  if (!VAT_FORMATS[country]?.test(number)) return false;
+
+  const checked = checkVatDigits(country, number);
+  if (checked === undefined) return true;
+  return checked ? 1.0 : false;
+}
+
+/**
+ * Validate a phone number written with a country code or national prefix:
+ * 8 to 15 digits in total, as allowed by E.164
+ */
+export function validatePhoneNumber(text: string): ValidationResult {
+  const digits = text.replace(/\D/g, '');
+  return digits.length >= 8 && digits.length <= 15;
+}
+
+/**
+ * Validate a JSON Web Token: the first segment must decode to a JSON header
+ * naming an algorithm
+ */
+export function validateJwt(text: string): ValidationResult {
+  try {
+    const header = JSON.parse(
+      Buffer.from(text.split('.')[0], 'base64url').toString('utf8')
+    );
+    return typeof header === 'object' && header !== null && 'alg' in header;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * A non-empty source line with comments removed
+ */
+interface YamlLine {
+  number: number;
+  indent: number;
+  content: string;
+}
+
+/**
+ * Parse the subset of YAML used by configuration files: block mappings and
+ * sequences, plain and quoted scalars, single-line flow collections ([a, b],
+ * {a: 1}), literal (|) and folded (>) block scalars, and comments. Anchors,
+ * tags and multiple documents are not supported
+ */
+export function parseYaml(text: string): unknown {
+  const parser = new YamlParser(text);
+  return parser.parseDocument();
+}
+
+class YamlParser {
+  private lines: YamlLine[] = [];
+  private rawLines: string[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.rawLines = text.split(/\r?\n/);
+
+    this.rawLines.forEach((raw, i) => {
+      const content = stripComment(raw).trimEnd();
+      if (!content.trim()) return;
+      if (/^ *\t/.test(raw)) {
+        throw yamlError(i + 1, 'tabs are not allowed for indentation');
+      }
+
+      const indent = content.search(/\S/);
+      this.lines.push({ number: i + 1, indent, content: content.trim() });
+    });
+  }
+
+  parseDocument(): unknown {
+    if (this.lines[0]?.content === '---') this.index++;
+    if (this.index >= this.lines.length) return null;
+
+    const value = this.parseBlock(this.lines[this.index].indent);
+    if (this.index < this.lines.length) {
+      throw yamlError(this.lines[this.index].number, 'unexpected indentation');
+    }
+    return value;
+  }
+
+  /**
+   * Parse the mapping, sequence or scalar starting at the current line
+   */
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.index];
+
+    if (isSequenceItem(line.content)) return this.parseSequence(indent);
+    if (findMappingColon(line.content) >= 0) return this.parseMapping(indent);
+
+    this.index++;
+    return parseScalar(line.content, line.number);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw yamlError(line.number, 'unexpected indentation');
+      }
+      if (!isSequenceItem(line.content)) break;
+
+      const rest = line.content.substring(1).trimStart();
+      if (!rest) {
+        this.index++;
+        items.push(this.parseNested(indent));
+        continue;
+      }
+
+      // '- key: value' starts a mapping indented to the text after the dash
+      const restIndent = indent + line.content.length - rest.length;
+      if (isSequenceItem(rest) || findMappingColon(rest) >= 0) {
+        this.lines[this.index] = { ...line, indent: restIndent, content: rest };
+        items.push(this.parseBlock(restIndent));
+      } else {
+        this.index++;
+        items.push(parseScalar(rest, line.number));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw yamlError(line.number, 'unexpected indentation');
+      }
+
+      const colon = findMappingColon(line.content);
+      if (colon < 0) {
+        if (isSequenceItem(line.content)) break;
+        throw yamlError(line.number, "expected 'key: value'");
+      }
+
+      const key = parseKey(line.content.substring(0, colon), line.number);
+      const rest = line.content.substring(colon + 1).trim();
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw yamlError(line.number, `duplicate key '${key}'`);
+      }
+      this.index++;
+
+      if (!rest) {
+        setKey(mapping, key, this.parseNested(indent, true));
+      } else if (/^[|>][+-]?$/.test(rest)) {
+        setKey(mapping, key, this.parseBlockScalar(indent, rest));
+      } else {
+        setKey(mapping, key, parseScalar(rest, line.number));
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Parse the value of a key or dash whose content is on the following
+   * lines. A sequence may sit at the same indentation as its key
+   */
+  private parseNested(
+    indent: number,
+    allowSameIndentSequence = false
+  ): unknown {
+    const next = this.lines[this.index];
+    if (!next) return null;
+
+    if (next.indent > indent) return this.parseBlock(next.indent);
+    if (
+      allowSameIndentSequence &&
+      next.indent === indent &&
+      isSequenceItem(next.content)
+    ) {
+      return this.parseSequence(indent);
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a literal (|) or folded (>) block scalar from the raw lines
+   */
+  private parseBlockScalar(indent: number, header: string): string {
+    const startLine = this.lines[this.index - 1].number;
+    const raw: string[] = [];
+    let rawIndex = startLine;
+
+    while (rawIndex < this.rawLines.length) {
+      const text = this.rawLines[rawIndex];
+      if (text.trim() && text.search(/\S/) <= indent) break;
+      raw.push(text);
+      rawIndex++;
+    }
+
+    // Skip the parsed lines that belong to the block
+    while (
+      this.index < this.lines.length &&
+      this.lines[this.index].number <= rawIndex
+    ) {
+      this.index++;
+    }
+
+    while (raw.length > 0 && !raw[raw.length - 1].trim()) raw.pop();
+    if (raw.length === 0) return '';
+
+    const blockIndent = raw
+      .filter((l) => l.trim())
+      .reduce((min, l) => Math.min(min, l.search(/\S/)), Infinity);
+    const body = raw.map((l) => l.substring(blockIndent));
+
+    // Folded scalars join lines with spaces; blank lines become newlines
+    const value =
+      header[0] === '|'
+        ? body.join('\n')
+        : body.reduce((folded, l, i) => {
+            if (i === 0) return l;
+            const separator = l === '' || body[i - 1] === '' ? '\n' : ' ';
+            return folded + separator + l;
+          }, '');
+
+    // Keep the final newline unless the header strips it ('|-', '>-')
+    return header.endsWith('-') ? value : value + '\n';
+  }
+}
+
+/**
+ * Add a key to a parsed mapping. Defining the property keeps a "__proto__"
+ * key as data, where assigning it would set the mapping's prototype
+ */
+function setKey(
+  mapping: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void {
+  Object.defineProperty(mapping, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+function yamlError(line: number, message: string): Error {
+  return new Error(`Invalid YAML at line ${line}: ${message}`);
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+/**
+ * Remove a trailing comment, ignoring '#' inside quotes or not preceded by
+ * whitespace
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      if (i === 0 || /[\s:[{,-]/.test(line[i - 1])) quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Position of the colon separating a mapping key from its value, or -1
+ */
+function findMappingColon(content: string): number {
+  if (content.startsWith('"') || content.startsWith("'")) {
+    const end = findClosingQuote(content, 0);
+    if (end < 0) return -1;
+    return /^\s*:(\s|$)/.test(content.substring(end + 1))
+      ? content.indexOf(':', end + 1)
+      : -1;
+  }
+  if (content.startsWith('[') || content.startsWith('{')) return -1;
+
+  const match = /:(\s|$)/.exec(content);
+  return match ? match.index : -1;
+}
+
+function findClosingQuote(text: string, start: number): number {
+  const quote = text[start];
+
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function parseKey(text: string, line: number): string {
+  const key = text.trim();
+  if (!key) throw yamlError(line, 'empty key');
+
+  if (key.startsWith('"') || key.startsWith("'")) {
+    const value = parseScalar(key, line);
+    return String(value);
+  }
+  return key;
+}
+
+/**
+ * Parse an inline value: quoted or plain scalar, or a flow collection
+ */
+function parseScalar(text: string, line: number): unknown {
+  const reader = new FlowReader(text, line);
+  const value = reader.readValue(false);
+  reader.expectEnd();
+  return value;
+}
+
+/**
+ * Reads inline values, including nested flow collections
+ */
+class FlowReader {
+  private position = 0;
+
+  constructor(
+    private text: string,
+    private line: number
+  ) {}
+
+  readValue(inFlow: boolean): unknown {
+    this.skipSpaces();
+    const char = this.text[this.position];
+
+    if (char === '[') return this.readSequence();
+    if (char === '{') return this.readMapping();
+    if (char === '"' || char === "'") return this.readQuoted();
+    return this.readPlain(inFlow);
+  }
+
+  expectEnd(): void {
+    this.skipSpaces();
+    if (this.position < this.text.length) {
+      throw yamlError(
+        this.line,
+        `unexpected '${this.text.substring(this.position)}'`
+      );
+    }
+  }
+
+  private readSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.position++;
+
+    this.skipSpaces();
+    if (this.text[this.position] === ']') {
+      this.position++;
+      return items;
+    }
+
+    for (;;) {
+      items.push(this.readValue(true));
+      this.skipSpaces();
+      const char = this.text[this.position++];
+      if (char === ']') return items;
+      if (char !== ',') throw yamlError(this.line, "expected ',' or ']'");
+    }
+  }
+
+  private readMapping(): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    this.position++;
+
+    this.skipSpaces();
+    if (this.text[this.position] === '}') {
+      this.position++;
+      return mapping;
+    }
+
+    for (;;) {
+      this.skipSpaces();
+      const key = String(
+        this.text[this.position] === '"' || this.text[this.position] === "'"
+          ? this.readQuoted()
+          : this.readPlain(true, true)
+      );
+      this.skipSpaces();
+      if (this.text[this.position++] !== ':') {
+        throw yamlError(this.line, `expected ':' after '${key}'`);
+      }
+      setKey(mapping, key, this.readValue(true));
+      this.skipSpaces();
+      const char = this.text[this.position++];
+      if (char === '}') return mapping;
+      if (char !== ',') throw yamlError(this.line, "expected ',' or '}'");
+    }
+  }
+
+  private readQuoted(): string {
+    const end = findClosingQuote(this.text, this.position);
+    if (end < 0) throw yamlError(this.line, 'unterminated string');
+
+    const quote = this.text[this.position];
+    const body = this.text.substring(this.position + 1, end);
+    this.position = end + 1;
+
+    if (quote === "'") return body.replace(/''/g, "'");
+    try {
+      return JSON.parse(`"${body}"`);
+    } catch {
+      throw yamlError(this.line, 'invalid escape in double-quoted string');
+    }
+  }
+
+  private readPlain(inFlow: boolean, isKey = false): unknown {
+    const start = this.position;
+
+    while (this.position < this.text.length) {
+      const char = this.text[this.position];
+      if (inFlow && /[,\]}]/.test(char)) break;
+      if (isKey && char === ':') break;
+      this.position++;
+    }
+
+    const value = this.text.substring(start, this.position).trim();
+    if (isKey) return value;
+    if (value === '' || value === '~' || value === 'null') return null;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(value)) {
+      return Number(value);
+    }
+    return value;
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.position] === ' ') this.position++;
+  }
+}